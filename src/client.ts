@@ -6,17 +6,54 @@
 import { type Connection, util } from "@prismatic-io/spectral";
 import { createClient } from "@prismatic-io/spectral/dist/clients/http";
 
+// Admin API version used when the connection does not set one
+export const DEFAULT_SHOPIFY_API_VERSION = "2026-10";
+
+// Shopify releases a stable version each quarter, plus "unstable"
+const SHOPIFY_API_VERSION_PATTERN = /^(\d{4}-(01|04|07|10)|unstable)$/;
+
+// Admin API version configured on a Shopify connection
+export function getShopifyApiVersion(shopifyConnection: Connection) {
+  const version =
+    util.types.toString(shopifyConnection.fields.apiVersion).trim() ||
+    DEFAULT_SHOPIFY_API_VERSION;
+
+  if (!SHOPIFY_API_VERSION_PATTERN.test(version)) {
+    throw new Error(
+      `Invalid Shopify API version "${version}". Use a version such as ${DEFAULT_SHOPIFY_API_VERSION}.`
+    );
+  }
+
+  return version;
+}
+
+// Access token from the OAuth install, or the static Admin API token
+export function getShopifyAccessToken(shopifyConnection: Connection) {
+  const accessToken =
+    util.types.toString(shopifyConnection.token?.access_token) ||
+    util.types.toString(shopifyConnection.fields.apiKey);
+
+  if (!accessToken) {
+    throw new Error(
+      "The Shopify connection has no access token. Complete the Shopify OAuth install or set an Admin API access token."
+    );
+  }
+
+  return accessToken;
+}
+
 export function createShopifyClient(shopifyConnection: Connection) {
-  const { shopDomain, apiKey, apiSecret } = shopifyConnection.fields;
+  const { shopDomain } = shopifyConnection.fields;
+  const apiVersion = getShopifyApiVersion(shopifyConnection);
 
   return createClient({
     baseUrl: util.types.toString(
-      `https://${shopDomain}.myshopify.com/admin/api/2023-04/`,
+      `https://${shopDomain}.myshopify.com/admin/api/${apiVersion}/`,
     ),
     headers: {
       Accept: "application/json",
       "Content-Type": "application/json",
-      "X-Shopify-Access-Token": util.types.toString(apiKey),
+      "X-Shopify-Access-Token": getShopifyAccessToken(shopifyConnection),
     },
   });
 }
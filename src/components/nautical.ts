@@ -1,7 +1,7 @@
-import { component } from "@prismatic-io/spectral";
+import { component, type Connection } from "@prismatic-io/spectral";
 import { logInfo, logError } from "../utils/logging";
-import { withRetry } from "../utils/errorHandling";
-import axios from "axios";
+import { createNauticalGraphqlClient } from "../utils/nauticalGraphql";
+import type { GraphqlOperations } from "../utils/diagnostics";
 
 // Define types for the component
 interface NauticalProductInput {
@@ -19,13 +19,20 @@ interface NauticalProductInput {
   [key: string]: unknown;
 }
 
-interface NauticalConnection {
-  fields: {
-    apiUrl: string;
-    apiKey: string;
-    tenantId: string;
-  };
-}
+const CREATE_PRODUCT_MUTATION = `
+  mutation ProductCreate($input: ProductCreateInput!) {
+    productCreate(input: $input) {
+      product {
+        id
+        name
+      }
+      errors {
+        field
+        message
+      }
+    }
+  }
+`;
 
 export const createProduct = component({
   key: "createProduct",
@@ -69,9 +76,6 @@ export const createProduct = component({
       },
       perform: async (context, params) => {
         const { nauticalConnection, title, description, variants } = params;
-        const { apiUrl, apiKey, tenantId } = (
-          nauticalConnection as NauticalConnection
-        ).fields;
 
         try {
           logInfo(context, "Creating product in Nautical Commerce", {
@@ -79,60 +83,21 @@ export const createProduct = component({
             variantCount: JSON.parse(variants).length,
           });
 
-          const productCreateMutation = `
-            mutation ProductCreate($input: ProductCreateInput!) {
-              productCreate(input: $input) {
-                product {
-                  id
-                  name
-                }
-                errors {
-                  field
-                  message
-                }
-              }
-            }
-          `;
-
           const productInput = {
             name: title,
             description,
             variants: JSON.parse(variants),
           };
 
-          const response = await withRetry(
-            () =>
-              axios.post(
-                apiUrl,
-                {
-                  query: productCreateMutation,
-                  variables: { input: productInput },
-                },
-                {
-                  headers: {
-                    Authorization: `Bearer ${apiKey}`,
-                    "x-nautical-tenant": tenantId,
-                    "Content-Type": "application/json",
-                  },
-                }
-              ),
-            3,
-            1000,
-            context
+          const { product: createdProduct } = await createNauticalGraphqlClient(
+            nauticalConnection as Connection
+          ).mutate<{ product: { id: string; name: string } }>(
+            "Create Nautical Product",
+            CREATE_PRODUCT_MUTATION,
+            { input: productInput },
+            "productCreate"
           );
 
-          if (
-            response.data.errors ||
-            response.data.data?.productCreate?.errors?.length > 0
-          ) {
-            const errorDetails =
-              response.data.errors || response.data.data?.productCreate?.errors;
-            throw new Error(
-              `Error creating product: ${JSON.stringify(errorDetails)}`
-            );
-          }
-
-          const createdProduct = response.data.data.productCreate.product;
           logInfo(
             context,
             "Successfully created product in Nautical Commerce",
@@ -157,3 +122,7 @@ export const createProduct = component({
     },
   },
 });
+
+export const NAUTICAL_COMPONENT_OPERATIONS: GraphqlOperations = {
+  nautical: [CREATE_PRODUCT_MUTATION],
+};
@@ -1,17 +1,71 @@
-import { component, input } from "@prismatic-io/spectral";
-import { createShopifyClient } from "../client";
+import { component, input, type Connection } from "@prismatic-io/spectral";
 import { logInfo, logError } from "../utils/logging";
-import { withRetry } from "../utils/errorHandling";
-import axios from "axios";
+import { createShopifyGraphqlClient } from "../utils/shopifyGraphql";
+import type { GraphqlOperations } from "../utils/diagnostics";
 
 // Define types for the component
 interface ShopifyConnection {
   fields: {
     shopDomain: string;
-    apiKey: string;
   };
 }
 
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface ShopifyConnectionPage {
+  edges: { node: Record<string, unknown> }[];
+  pageInfo: PageInfo;
+}
+
+const FETCH_PRODUCTS_QUERY = `
+  query ($cursor: String, $limit: Int!) {
+    products(first: $limit, after: $cursor) {
+      edges {
+        node {
+          id
+          title
+          description
+          descriptionHtml
+          productType
+          vendor
+          status
+          options {
+            id
+            name
+            values
+          }
+          variants(first: 100) {
+            edges {
+              node {
+                id
+                sku
+                price
+                compareAtPrice
+                inventoryQuantity
+                selectedOptions {
+                  name
+                  value
+                }
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
 // Component to fetch products from Shopify
 export const fetchProducts = component({
   key: "fetchProducts",
@@ -50,8 +104,7 @@ export const fetchProducts = component({
       },
       perform: async (context, params) => {
         const { shopifyConnection, limit, cursor } = params;
-        const { shopDomain, apiKey } = (shopifyConnection as ShopifyConnection)
-          .fields;
+        const { shopDomain } = (shopifyConnection as ShopifyConnection).fields;
 
         try {
           logInfo(context, "Fetching products from Shopify", {
@@ -60,78 +113,17 @@ export const fetchProducts = component({
             cursor,
           });
 
-          const query = `
-            query ($cursor: String, $limit: Int!) {
-              products(first: $limit, after: $cursor) {
-                edges {
-                  node {
-                    id
-                    title
-                    description
-                    descriptionHtml
-                    productType
-                    vendor
-                    status
-                    options {
-                      id
-                      name
-                      values
-                    }
-                    variants(first: 100) {
-                      edges {
-                        node {
-                          id
-                          sku
-                          price
-                          compareAtPrice
-                          inventoryQuantity
-                          selectedOptions {
-                            name
-                            value
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-                pageInfo {
-                  hasNextPage
-                  endCursor
-                }
-              }
-            }
-          `;
-
-          const response = await withRetry(
-            () =>
-              axios.post(
-                `https://${shopDomain}.myshopify.com/admin/api/2023-04/graphql.json`,
-                {
-                  query,
-                  variables: {
-                    limit: Number.parseInt(limit || "50", 10),
-                    cursor,
-                  },
-                },
-                {
-                  headers: {
-                    "X-Shopify-Access-Token": apiKey,
-                    "Content-Type": "application/json",
-                  },
-                }
-              ),
-            3,
-            1000,
+          const { products } = await createShopifyGraphqlClient(
+            shopifyConnection as Connection,
             context
+          ).query<{ products: ShopifyConnectionPage }>(
+            "Fetch Shopify Products",
+            FETCH_PRODUCTS_QUERY,
+            {
+              limit: Number.parseInt(limit || "50", 10),
+              cursor,
+            }
           );
-
-          if (response.data.errors) {
-            throw new Error(
-              `Error fetching products: ${JSON.stringify(response.data.errors)}`
-            );
-          }
-
-          const products = response.data.data.products;
           logInfo(context, "Successfully fetched products from Shopify", {
             count: products.edges.length,
             hasNextPage: products.pageInfo.hasNextPage,
@@ -153,6 +145,150 @@ export const fetchProducts = component({
   },
 });
 
+const FETCH_PRODUCT_VARIANTS_QUERY = `
+  query ($id: ID!, $cursor: String) {
+    product(id: $id) {
+      variants(first: 100, after: $cursor) {
+        edges {
+          node {
+            id
+            sku
+            price
+            compareAtPrice
+            inventoryQuantity
+            selectedOptions {
+              name
+              value
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+// Component to fetch the remaining variants of a single Shopify product
+export const fetchProductVariants = component({
+  key: "fetchProductVariants",
+  display: {
+    label: "Fetch Product Variants",
+    description: "Fetch a page of variants for a Shopify product",
+    iconPath: "icons/fetch-products.svg",
+    category: "Products",
+  },
+  actions: {
+    fetch: {
+      display: {
+        label: "Fetch Product Variants",
+        description: "Fetch a page of variants for a Shopify product",
+      },
+      inputs: {
+        shopifyConnection: {
+          label: "Shopify Connection",
+          type: "connection",
+          required: true,
+          comments: "The Shopify connection to use",
+        },
+        productId: {
+          label: "Product ID",
+          type: "string",
+          required: true,
+          comments: "The Shopify GID of the product",
+        },
+        cursor: {
+          label: "Cursor",
+          type: "string",
+          required: false,
+          comments: "Cursor for pagination",
+        },
+      },
+      perform: async (context, params) => {
+        const { shopifyConnection, productId, cursor } = params;
+
+        try {
+          logInfo(context, "Fetching product variants from Shopify", {
+            productId,
+            cursor,
+          });
+
+          const { product } = await createShopifyGraphqlClient(
+            shopifyConnection as Connection,
+            context
+          ).query<{ product: { variants: ShopifyConnectionPage } | null }>(
+            "Fetch Shopify Product Variants",
+            FETCH_PRODUCT_VARIANTS_QUERY,
+            { id: productId, cursor }
+          );
+          if (!product) {
+            throw new Error(`Shopify product ${productId} was not found`);
+          }
+
+          const { variants } = product;
+          logInfo(context, "Successfully fetched product variants", {
+            productId,
+            count: variants.edges.length,
+            hasNextPage: variants.pageInfo.hasNextPage,
+          });
+
+          return { data: variants };
+        } catch (error) {
+          const formattedError =
+            error instanceof Error ? error : new Error(String(error));
+          logError(
+            context,
+            "Failed to fetch product variants from Shopify",
+            formattedError
+          );
+          throw formattedError;
+        }
+      },
+    },
+  },
+});
+
+const CREATE_PRODUCT_MUTATION = `
+  mutation CreateProduct($product: ProductCreateInput!) {
+    productCreate(product: $product) {
+      product {
+        id
+        title
+        description
+        handle
+        status
+        variants(first: 1) {
+          nodes {
+            id
+          }
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const UPDATE_DEFAULT_VARIANT_MUTATION = `
+  mutation UpdateDefaultVariant($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+    productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+      productVariants {
+        id
+        price
+        sku
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
 // Component to create a product in Shopify
 export const createProduct = component({
   key: "createProduct",
@@ -205,52 +341,55 @@ export const createProduct = component({
           logInfo(context, "Creating new product in Shopify", {
             title: params.title,
           });
-          const client = createShopifyClient(params.shopifyConnection);
+          const client = createShopifyGraphqlClient(
+            params.shopifyConnection,
+            context
+          );
 
-          const mutation = `
-            mutation CreateProduct($input: ProductInput!) {
-              productCreate(input: $input) {
-                product {
-                  id
-                  title
-                  description
-                  handle
-                  status
-                }
-                userErrors {
-                  field
-                  message
-                }
-              }
-            }
-          `;
+          // Products are created with a single default variant, which then
+          // gets the price and SKU
+          const { product } = await client.mutate<{
+            product: {
+              id: string;
+              variants: { nodes: { id: string }[] };
+            };
+          }>(
+            "Create Shopify Product",
+            CREATE_PRODUCT_MUTATION,
+            {
+              product: {
+                title: params.title,
+                descriptionHtml: params.description,
+              },
+            },
+            "productCreate"
+          );
 
-          const variables = {
-            input: {
-              title: params.title,
-              description: params.description,
+          const { productVariants } = await client.mutate<{
+            productVariants: { id: string; price: string; sku: string }[];
+          }>(
+            "Set Shopify Product Price and SKU",
+            UPDATE_DEFAULT_VARIANT_MUTATION,
+            {
+              productId: product.id,
               variants: [
                 {
+                  id: product.variants.nodes[0]?.id,
                   price: params.price,
-                  sku: params.sku,
+                  inventoryItem: { sku: params.sku },
                 },
               ],
             },
-          };
-
-          const response = await withRetry(
-            () => client.post("", { query: mutation, variables }),
-            3,
-            1000,
-            context
+            "productVariantsBulkUpdate",
+            { idempotent: true }
           );
 
           logInfo(context, "Successfully created product", {
-            id: response.data.data.productCreate.product.id,
+            id: product.id,
           });
 
           return {
-            data: response.data,
+            data: { ...product, variants: { nodes: productVariants } },
           };
         } catch (error) {
           logError(
@@ -264,3 +403,12 @@ export const createProduct = component({
     },
   },
 });
+
+export const SHOPIFY_COMPONENT_OPERATIONS: GraphqlOperations = {
+  shopify: [
+    FETCH_PRODUCTS_QUERY,
+    FETCH_PRODUCT_VARIANTS_QUERY,
+    CREATE_PRODUCT_MUTATION,
+    UPDATE_DEFAULT_VARIANT_MUTATION,
+  ],
+};
@@ -8,7 +8,14 @@ import {
   configPage,
   connectionConfigVar,
   configVar,
+  dataSourceConfigVar,
+  OAuth2Type,
 } from "@prismatic-io/spectral";
+import {
+  fetchInventoryLocationMapping,
+  fetchNauticalWarehousePicklist,
+} from "./dataSources/inventoryLocations";
+import { SHOPIFY_OAUTH_SCOPES } from "./utils/shopifyScopes";
 
 export const configPages = {
   Connections: configPage({
@@ -19,29 +26,63 @@ export const configPages = {
       helperText2:
         "Configure the connections required for this integration to work.",
 
-      // Shopify Connection
+      // Shopify Connection, installed through Shopify's OAuth flow
       "Shopify Connection": connectionConfigVar({
         stableKey: "shopify-connection-41a8b723",
         dataType: "connection",
+        oauth2Type: OAuth2Type.AuthorizationCode,
         inputs: {
           shopDomain: {
             label: "Shopify Store Domain",
             type: "string",
             required: true,
             default: "your-store",
-            example: "your-store.myshopify.com",
+            example: "your-store",
+            comments:
+              "The store's myshopify.com subdomain, without .myshopify.com",
           },
-          apiKey: {
-            label: "Shopify API Key",
-            type: "password",
+          authorizeUrl: {
+            label: "Authorize URL",
+            type: "template",
+            templateValue:
+              "https://{{#shopDomain}}.myshopify.com/admin/oauth/authorize",
+            shown: false,
+          },
+          tokenUrl: {
+            label: "Token URL",
+            type: "template",
+            templateValue:
+              "https://{{#shopDomain}}.myshopify.com/admin/oauth/access_token",
+            shown: false,
+          },
+          scopes: {
+            label: "Scopes",
+            type: "string",
             required: true,
-            comments: "Your Shopify Admin API key",
+            default: SHOPIFY_OAUTH_SCOPES,
+            comments: "Comma-separated Shopify access scopes to request",
           },
-          apiSecret: {
-            label: "Shopify API Secret",
+          clientId: {
+            label: "Shopify Client ID",
+            type: "string",
+            required: true,
+            comments: "Your Shopify app's client ID",
+          },
+          clientSecret: {
+            label: "Shopify Client Secret",
             type: "password",
             required: true,
-            comments: "Your Shopify Admin API secret",
+            comments:
+              "Your Shopify app's client secret, also used to verify incoming webhook signatures",
+          },
+          apiVersion: {
+            label: "Shopify Admin API Version",
+            type: "string",
+            required: false,
+            default: "2026-10",
+            example: "2026-10",
+            comments:
+              "Shopify Admin API version to call. When Shopify retires this version, change it here to upgrade.",
           },
         },
       }),
@@ -85,6 +126,119 @@ export const configPages = {
         description: "Import all products from Shopify during initial setup",
         defaultValue: true,
       }),
+      "Product Import Mode": configVar({
+        stableKey: "product-import-mode-7c2d94e1",
+        dataType: "picklist",
+        pickList: ["Paginated", "Bulk Operation"],
+        description:
+          "Use Shopify's Bulk Operations API for large catalogs instead of paging through products",
+        defaultValue: "Paginated",
+      }),
+      "Dry Run": configVar({
+        stableKey: "dry-run-4e2b7a91",
+        dataType: "boolean",
+        description:
+          "Report the changes the sync flows would make without writing to Shopify or Nautical Commerce",
+        defaultValue: false,
+      }),
+      "Order Sync Window": configVar({
+        stableKey: "order-sync-window-83d1c6b2",
+        dataType: "picklist",
+        pickList: ["Since Last Successful Run", "Fixed Lookback"],
+        description:
+          "Which orders the scheduled Order Sync picks up. The first run, and every Fixed Lookback run, uses Order Lookback Hours.",
+        defaultValue: "Since Last Successful Run",
+      }),
+      "Order Lookback Hours": configVar({
+        stableKey: "order-lookback-hours-f52a0e7d",
+        dataType: "number",
+        description: "How many hours back to look for updated orders",
+        defaultValue: 24,
+      }),
+      "Inventory Source of Truth": configVar({
+        stableKey: "inventory-source-of-truth-9b41f0a6",
+        dataType: "picklist",
+        pickList: ["Shopify", "Nautical", "Last Writer Wins"],
+        description:
+          "System whose stock levels win when Shopify and Nautical disagree. Last Writer Wins compares when each side was last updated.",
+        defaultValue: "Shopify",
+      }),
+    },
+  }),
+
+  // Location Mapping
+  "Location Mapping": configPage({
+    tagline: "Map Shopify locations to Nautical Commerce warehouses",
+    elements: {
+      helperText3:
+        "Inventory is synced separately for each mapped warehouse. Leave every location unmapped to sync total stock per variant instead.",
+      "Inventory Location Mapping": dataSourceConfigVar({
+        stableKey: "inventory-location-mapping-2f8d5c13",
+        dataSourceType: "objectFieldMap",
+        perform: fetchInventoryLocationMapping,
+      }),
+      "Unmapped Location Handling": configVar({
+        stableKey: "unmapped-location-handling-a6e0b7d4",
+        dataType: "picklist",
+        pickList: ["Ignore", "Aggregate Into Default Warehouse", "Fail"],
+        description:
+          "What to do with stock at Shopify locations that are not mapped to a warehouse",
+        defaultValue: "Ignore",
+      }),
+      "Default Warehouse": dataSourceConfigVar({
+        stableKey: "default-warehouse-58c3e9a2",
+        dataSourceType: "picklist",
+        description:
+          "Warehouse that receives stock from unmapped locations when aggregating",
+        perform: fetchNauticalWarehousePicklist,
+      }),
+    },
+  }),
+
+  // Safety Stock
+  "Safety Stock": configPage({
+    tagline: "Hold back stock from Nautical Commerce",
+    elements: {
+      helperText4:
+        "Safety stock is subtracted from Shopify quantities before they are published to Nautical Commerce. A SKU rule overrides a product type rule, which overrides the global value.",
+      "Global Safety Stock": configVar({
+        stableKey: "global-safety-stock-d1f7a3c8",
+        dataType: "number",
+        description: "Units held back for every variant",
+        defaultValue: 0,
+      }),
+      "Safety Stock by Product Type": configVar({
+        stableKey: "safety-stock-by-product-type-6b9e2f40",
+        dataType: "string",
+        collectionType: "keyvaluelist",
+        description: "Units held back, keyed by Shopify product type",
+      }),
+      "Safety Stock by SKU": configVar({
+        stableKey: "safety-stock-by-sku-0c4a8e57",
+        dataType: "string",
+        collectionType: "keyvaluelist",
+        description: "Units held back, keyed by variant SKU",
+      }),
+    },
+  }),
+
+  // Sellers
+  Sellers: configPage({
+    tagline: "Route Shopify vendors to Nautical Commerce sellers",
+    elements: {
+      "Vendor Seller Mapping": configVar({
+        stableKey: "vendor-seller-mapping-7a3f19e2",
+        dataType: "string",
+        collectionType: "keyvaluelist",
+        description:
+          "Nautical seller ID keyed by Shopify product vendor. Vendors not listed are matched to the Nautical seller with the same name.",
+      }),
+      "Default Seller": configVar({
+        stableKey: "default-seller-c84b2d06",
+        dataType: "string",
+        description:
+          "Nautical seller ID for line items with no vendor, such as custom items",
+      }),
     },
   }),
 };
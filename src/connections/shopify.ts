@@ -1,22 +1,94 @@
-import { connection } from "@prismatic-io/spectral";
+import {
+  connection,
+  oauth2Connection,
+  OAuth2Type,
+} from "@prismatic-io/spectral";
+import { SHOPIFY_OAUTH_SCOPES } from "../utils/shopifyScopes";
 
-export const shopifyConnection = connection({
+export const shopifyConnection = oauth2Connection({
   key: "shopify",
-  label: "Shopify",
-  comments: "Connection to Shopify store",
+  display: {
+    label: "Shopify",
+    description: "Install the app in a Shopify store through OAuth",
+  },
+  oauth2Type: OAuth2Type.AuthorizationCode,
   inputs: {
     shopDomain: {
       label: "Shop Domain",
       type: "string",
       required: true,
-      comments: "Your Shopify store domain (e.g., your-store.myshopify.com)",
+      comments: "Your Shopify store subdomain (e.g., your-store)",
     },
-    apiKey: {
-      label: "API Key",
+    authorizeUrl: {
+      label: "Authorize URL",
+      type: "template",
+      templateValue:
+        "https://{{#shopDomain}}.myshopify.com/admin/oauth/authorize",
+      shown: false,
+    },
+    tokenUrl: {
+      label: "Token URL",
+      type: "template",
+      templateValue:
+        "https://{{#shopDomain}}.myshopify.com/admin/oauth/access_token",
+      shown: false,
+    },
+    scopes: {
+      label: "Scopes",
+      type: "string",
+      required: true,
+      default: SHOPIFY_OAUTH_SCOPES,
+      comments: "Comma-separated Shopify access scopes to request",
+    },
+    clientId: {
+      label: "Client ID",
+      type: "string",
+      required: true,
+      comments: "Your Shopify app's client ID",
+    },
+    clientSecret: {
+      label: "Client Secret",
+      type: "password",
+      required: true,
+      comments: "Your Shopify app's client secret",
+    },
+    apiVersion: {
+      label: "API Version",
+      type: "string",
+      required: false,
+      default: "2026-10",
+      comments: "Shopify Admin API version to call (e.g., 2026-10)",
+    },
+  },
+});
+
+// Static Admin API token of a custom app, for stores that do not install
+// the app through OAuth
+export const shopifyTokenConnection = connection({
+  key: "shopifyToken",
+  display: {
+    label: "Shopify Admin API Token",
+    description: "Connect to a Shopify store with a custom app's access token",
+  },
+  inputs: {
+    shopDomain: {
+      label: "Shop Domain",
       type: "string",
       required: true,
-      comments: "Your Shopify Admin API access token",
-      sensitive: true,
+      comments: "Your Shopify store subdomain (e.g., your-store)",
+    },
+    apiKey: {
+      label: "Admin API Access Token",
+      type: "password",
+      required: true,
+      comments: "Your custom app's Admin API access token",
+    },
+    apiVersion: {
+      label: "API Version",
+      type: "string",
+      required: false,
+      default: "2026-10",
+      comments: "Shopify Admin API version to call (e.g., 2026-10)",
     },
   },
 });
@@ -0,0 +1,150 @@
+import type {
+  Connection,
+  DataSourceContext,
+  Element,
+  ObjectFieldMap,
+} from "@prismatic-io/spectral";
+import { createShopifyGraphqlClient } from "../utils/shopifyGraphql";
+import { createNauticalGraphqlClient } from "../utils/nauticalGraphql";
+import type { GraphqlOperations } from "../utils/diagnostics";
+
+// Object key used for Nautical warehouses in the location mapping
+export const NAUTICAL_WAREHOUSE_OBJECT = "nauticalWarehouse";
+
+/**
+ * Build the location mapping shown on the "Location Mapping" config page:
+ * one row per Shopify location, each mappable to a Nautical warehouse
+ * @param context Data source context holding the connection config vars
+ * @returns Object field map of Shopify locations and Nautical warehouses
+ */
+export async function fetchInventoryLocationMapping(
+  context: DataSourceContext
+): Promise<{ result: ObjectFieldMap }> {
+  const [locations, warehouses] = await Promise.all([
+    fetchShopifyLocations(getConnection(context, "Shopify Connection")),
+    fetchNauticalWarehouses(getConnection(context, "Nautical Connection")),
+  ]);
+
+  return {
+    result: {
+      fields: locations.map((location) => {
+        // Pre-select a warehouse with the same name where there is one
+        const match = warehouses.find(
+          (warehouse) =>
+            warehouse.label?.toLowerCase() === location.label?.toLowerCase()
+        );
+        return {
+          field: location,
+          ...(match && {
+            defaultObject: { key: NAUTICAL_WAREHOUSE_OBJECT },
+            defaultField: match,
+          }),
+        };
+      }),
+      options: [
+        {
+          object: {
+            key: NAUTICAL_WAREHOUSE_OBJECT,
+            label: "Nautical Warehouse",
+          },
+          fields: warehouses,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * List Nautical warehouses for the "Default Warehouse" picklist
+ * @param context Data source context holding the connection config vars
+ * @returns Warehouses as picklist elements
+ */
+export async function fetchNauticalWarehousePicklist(
+  context: DataSourceContext
+): Promise<{ result: Element[] }> {
+  return {
+    result: await fetchNauticalWarehouses(
+      getConnection(context, "Nautical Connection")
+    ),
+  };
+}
+
+function getConnection(context: DataSourceContext, name: string): Connection {
+  return (context.configVars as Record<string, unknown>)[name] as Connection;
+}
+
+const LIST_LOCATIONS_QUERY = `
+  query ListLocations($cursor: String) {
+    locations(first: 100, after: $cursor) {
+      edges {
+        node {
+          id
+          name
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+async function fetchShopifyLocations(
+  connection: Connection
+): Promise<Element[]> {
+  const client = createShopifyGraphqlClient(connection);
+  const locations: Element[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const {
+      locations: page,
+    }: {
+      locations: {
+        edges: { node: { id: string; name: string } }[];
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      };
+    } = await client.query("Fetch Shopify Locations", LIST_LOCATIONS_QUERY, {
+      cursor,
+    });
+
+    for (const { node } of page.edges) {
+      locations.push({ key: node.id, label: node.name });
+    }
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+  }
+
+  return locations;
+}
+
+const LIST_WAREHOUSES_QUERY = `
+  query ListWarehouses {
+    warehouses(first: 100) {
+      nodes {
+        id
+        name
+      }
+    }
+  }
+`;
+
+async function fetchNauticalWarehouses(
+  connection: Connection
+): Promise<Element[]> {
+  const { warehouses } = await createNauticalGraphqlClient(connection).query<{
+    warehouses: { nodes: { id: string; name: string }[] };
+  }>("Fetch Nautical Warehouses", LIST_WAREHOUSES_QUERY);
+
+  return warehouses.nodes.map((warehouse) => ({
+    key: warehouse.id,
+    label: warehouse.name,
+  }));
+}
+
+export const INVENTORY_LOCATIONS_OPERATIONS: GraphqlOperations = {
+  shopify: [LIST_LOCATIONS_QUERY],
+  nautical: [LIST_WAREHOUSES_QUERY],
+};
@@ -1,10 +1,11 @@
 import {
   dataSource,
   type DataSourceContext,
-  type Connection,
   type ObjectFieldMap,
 } from "@prismatic-io/spectral";
 import { logInfo, logError } from "../utils/logging";
+import { createNauticalGraphqlClient } from "../utils/nauticalGraphql";
+import type { GraphqlOperations } from "../utils/diagnostics";
 
 interface ShopifyOption {
   name: string;
@@ -21,13 +22,21 @@ interface NauticalAttribute {
   }>;
 }
 
-interface NauticalConnection extends Connection {
-  fields: {
-    apiUrl: string;
-    apiKey: string;
-    tenantId: string;
-  };
-}
+const GET_ATTRIBUTES_QUERY = `
+  query GetAttributes {
+    attributes(first: 100) {
+      nodes {
+        id
+        name
+        type
+        values {
+          id
+          name
+        }
+      }
+    }
+  }
+`;
 
 export const shopifyFieldMapper = dataSource({
   display: {
@@ -46,7 +55,7 @@ export const shopifyFieldMapper = dataSource({
 
   perform: async (context: DataSourceContext, params) => {
     try {
-      const connection = params.connection as NauticalConnection;
+      const client = createNauticalGraphqlClient(params.connection);
 
       // Get Shopify options from the current product
       const shopifyOptions = (context as any).triggerData
@@ -57,43 +66,10 @@ export const shopifyFieldMapper = dataSource({
       }
 
       // Query Nautical attributes
-      const query = `
-        query GetAttributes {
-          attributes(first: 100) {
-            nodes {
-              id
-              name
-              type
-              values {
-                id
-                name
-              }
-            }
-          }
-        }
-      `;
-
-      const response = await fetch(connection.fields.apiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${connection.fields.apiKey}`,
-          "x-nautical-tenant": connection.fields.tenantId,
-        },
-        body: JSON.stringify({
-          query,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch Nautical attributes: ${response.statusText}`
-        );
-      }
-
-      const responseData = await response.json();
-      const nauticalAttributes = responseData.data.attributes
-        .nodes as NauticalAttribute[];
+      const { attributes } = await client.query<{
+        attributes: { nodes: NauticalAttribute[] };
+      }>("Fetch Nautical Attributes", GET_ATTRIBUTES_QUERY);
+      const nauticalAttributes = attributes.nodes;
 
       // Create mapping suggestions
       const suggestions = shopifyOptions.map((option) => {
@@ -191,3 +167,7 @@ function calculateConfidence(
 
   return score / maxScore;
 }
+
+export const FIELD_MAPPER_OPERATIONS: GraphqlOperations = {
+  nautical: [GET_ATTRIBUTES_QUERY],
+};
@@ -0,0 +1,267 @@
+import {
+  flow,
+  type ActionContext,
+  type Connection,
+} from "@prismatic-io/spectral";
+import {
+  createShopifyGraphqlClient,
+  type ShopifyGraphqlClient,
+} from "../utils/shopifyGraphql";
+import {
+  createNauticalGraphqlClient,
+  type NauticalGraphqlClient,
+} from "../utils/nauticalGraphql";
+import { logInfo, logError } from "../utils/logging";
+import { isDryRun, type PlannedChange } from "../utils/dryRun";
+import {
+  CUSTOMER_FIELDS,
+  createNauticalCustomer,
+  findCustomerByExternalId,
+  normalizeShopifyWebhookCustomer,
+  transformShopifyCustomerToNautical,
+  type NauticalCustomerInput,
+  type ShopifyCustomer,
+  type ShopifyWebhookCustomer,
+} from "../utils/customers";
+import type { GraphqlOperations } from "../utils/diagnostics";
+
+interface ShopifyCustomerPage {
+  nodes: ShopifyCustomer[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+// Planned customer change; the customer input is always filled in
+type CustomerChange = PlannedChange<NauticalCustomerInput> & {
+  data: NauticalCustomerInput;
+};
+
+// Type for context.instanceState
+interface InstanceState {
+  // Start time of the last run that synced every customer without errors
+  customerSyncWatermark?: string;
+}
+
+export const customerSyncFlow = flow({
+  name: "Customer Sync",
+  stableKey: "customer-sync",
+  description:
+    "Backfill Shopify customers into Nautical Commerce and keep them up to date",
+  schedule: { value: "0 * * * *", timezone: "UTC" },
+
+  // Customer webhooks are delivered through the Shopify webhook flow
+  onExecution: async (context) => {
+    const configVars = context.configVars as Record<string, unknown>;
+    const shopifyClient = createShopifyGraphqlClient(
+      configVars["Shopify Connection"] as Connection,
+      context
+    );
+    const nauticalClient = createNauticalGraphqlClient(
+      configVars["Nautical Connection"] as Connection
+    );
+    const instanceState = context.instanceState as InstanceState;
+    const dryRun = isDryRun(configVars);
+    const runStartedAt = new Date().toISOString();
+    // The first run backfills every customer
+    const updatedSince = instanceState.customerSyncWatermark;
+
+    const results = {
+      total: 0,
+      created: 0,
+      updated: 0,
+      failed: 0,
+      changes: [] as PlannedChange<NauticalCustomerInput>[],
+    };
+
+    try {
+      for await (const customers of iterateShopifyCustomers(
+        shopifyClient,
+        updatedSince
+      )) {
+        results.total += customers.length;
+
+        for (const customer of customers) {
+          try {
+            const change = await planCustomerChange(nauticalClient, customer);
+            if (dryRun) {
+              results.changes.push(change);
+            } else {
+              await applyCustomerChange(nauticalClient, change);
+            }
+            results[change.action === "create" ? "created" : "updated"]++;
+          } catch (error) {
+            results.failed++;
+            logError(
+              context,
+              `Failed to sync customer ${customer.id}`,
+              error instanceof Error ? error : new Error(String(error))
+            );
+          }
+        }
+      }
+
+      // Failed customers are retried next run by leaving the watermark alone
+      if (!dryRun && results.failed === 0) {
+        instanceState.customerSyncWatermark = runStartedAt;
+      }
+
+      logInfo(context, `Synced ${results.total} customers to Nautical`, {
+        created: results.created,
+        updated: results.updated,
+        failed: results.failed,
+        updatedSince,
+        dryRun,
+      });
+
+      return {
+        data: {
+          ...(dryRun ? { dryRun, changes: results.changes } : {}),
+          total: results.total,
+          created: results.created,
+          updated: results.updated,
+          failed: results.failed,
+          updatedSince,
+          message: `${dryRun ? "Dry run: would create" : "Created"} ${
+            results.created
+          } and ${dryRun ? "update" : "updated"} ${
+            results.updated
+          } Nautical customers`,
+        },
+      };
+    } catch (error) {
+      const formattedError =
+        error instanceof Error ? error : new Error(String(error));
+      logError(context, "Customer sync failed", formattedError);
+      throw formattedError;
+    }
+  },
+});
+
+/**
+ * Handle a customers/create or customers/update webhook routed from the
+ * Shopify webhook flow
+ * @param context The action context
+ * @param topic Shopify webhook topic
+ * @param data Parsed webhook body
+ * @returns The created or updated Nautical customer
+ */
+export async function handleCustomerWebhook(
+  context: ActionContext,
+  topic: string,
+  data: ShopifyWebhookCustomer
+) {
+  const nauticalClient = createNauticalGraphqlClient(
+    (context.configVars as Record<string, unknown>)[
+      "Nautical Connection"
+    ] as Connection
+  );
+  const customer = normalizeShopifyWebhookCustomer(data);
+  const change = await planCustomerChange(nauticalClient, customer);
+
+  if (isDryRun(context.configVars)) {
+    return { dryRun: true, change };
+  }
+
+  const nauticalCustomer = await applyCustomerChange(nauticalClient, change);
+
+  logInfo(context, `Synced customer ${customer.id} to Nautical`, {
+    topic,
+    action: change.action,
+    nauticalId: nauticalCustomer.id,
+  });
+
+  return { applied: true, customer: nauticalCustomer };
+}
+
+async function planCustomerChange(
+  client: NauticalGraphqlClient,
+  customer: ShopifyCustomer
+): Promise<CustomerChange> {
+  const existing = await findCustomerByExternalId(client, customer.id);
+  return {
+    action: existing ? "update" : "create",
+    externalId: customer.id,
+    nauticalId: existing?.id,
+    data: transformShopifyCustomerToNautical(customer),
+  };
+}
+
+const UPDATE_CUSTOMER_MUTATION = `
+  mutation UpdateCustomer($id: ID!, $input: CustomerInput!) {
+    customerUpdate(id: $id, input: $input) {
+      customer {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+async function applyCustomerChange(
+  client: NauticalGraphqlClient,
+  change: CustomerChange
+): Promise<{ id: string }> {
+  if (!change.nauticalId) {
+    return createNauticalCustomer(client, change.data);
+  }
+
+  const { customer } = await client.mutate<{ customer: { id: string } }>(
+    "Update Nautical Customer",
+    UPDATE_CUSTOMER_MUTATION,
+    { id: change.nauticalId, input: change.data },
+    "customerUpdate",
+    { idempotent: true }
+  );
+
+  return customer;
+}
+
+const GET_CUSTOMERS_QUERY = `
+  query GetCustomers($search: String, $cursor: String) {
+    customers(first: 100, after: $cursor, query: $search, sortKey: UPDATED_AT) {
+      nodes {
+        ${CUSTOMER_FIELDS}
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+/**
+ * Page through Shopify customers, oldest update first
+ * @param client Shopify GraphQL client
+ * @param updatedSince Only customers updated at or after this time are
+ * returned; every customer when omitted
+ * @returns Async iterator over pages of customers
+ */
+async function* iterateShopifyCustomers(
+  client: ShopifyGraphqlClient,
+  updatedSince?: string
+): AsyncGenerator<ShopifyCustomer[]> {
+  const search = updatedSince ? `updated_at:>='${updatedSince}'` : null;
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const { customers: page }: { customers: ShopifyCustomerPage } =
+      await client.query("Fetch Shopify Customers", GET_CUSTOMERS_QUERY, {
+        search,
+        cursor,
+      });
+
+    yield page.nodes;
+
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+  }
+}
+
+export const CUSTOMER_SYNC_OPERATIONS: GraphqlOperations = {
+  shopify: [GET_CUSTOMERS_QUERY],
+  nautical: [UPDATE_CUSTOMER_MUTATION],
+};
@@ -0,0 +1,78 @@
+import { flow, util, type Connection } from "@prismatic-io/spectral";
+import { logInfo, logError } from "../utils/logging";
+import { createShopifyGraphqlClient } from "../utils/shopifyGraphql";
+import { createNauticalGraphqlClient } from "../utils/nauticalGraphql";
+import { runDiagnostics } from "../utils/diagnostics";
+import { SHOPIFY_COMPONENT_OPERATIONS } from "../components/shopify";
+import { NAUTICAL_COMPONENT_OPERATIONS } from "../components/nautical";
+import { BULK_EXPORT_OPERATIONS } from "../utils/bulkOperations";
+import { CUSTOMER_OPERATIONS } from "../utils/customers";
+import { NAUTICAL_PRODUCT_OPERATIONS } from "../utils/nauticalProducts";
+import { INVENTORY_LOCATIONS_OPERATIONS } from "../dataSources/inventoryLocations";
+import { FIELD_MAPPER_OPERATIONS } from "../dataSources/shopifyFieldMapper";
+import { INVENTORY_SYNC_OPERATIONS } from "./inventorySync";
+import { ORDER_SYNC_OPERATIONS } from "./orderSync";
+import { ORDER_REFUNDS_OPERATIONS } from "./orderRefunds";
+import { FULFILLMENT_SYNC_OPERATIONS } from "./fulfillmentSync";
+import { CUSTOMER_SYNC_OPERATIONS } from "./customerSync";
+import { SETUP_WEBHOOKS_OPERATIONS } from "./setupWebhooks";
+
+// Every GraphQL operation the flows, components and config pages send
+const OPERATIONS = [
+  INVENTORY_SYNC_OPERATIONS,
+  ORDER_SYNC_OPERATIONS,
+  ORDER_REFUNDS_OPERATIONS,
+  FULFILLMENT_SYNC_OPERATIONS,
+  CUSTOMER_SYNC_OPERATIONS,
+  SETUP_WEBHOOKS_OPERATIONS,
+  BULK_EXPORT_OPERATIONS,
+  CUSTOMER_OPERATIONS,
+  NAUTICAL_PRODUCT_OPERATIONS,
+  INVENTORY_LOCATIONS_OPERATIONS,
+  FIELD_MAPPER_OPERATIONS,
+  SHOPIFY_COMPONENT_OPERATIONS,
+  NAUTICAL_COMPONENT_OPERATIONS,
+];
+
+export const diagnosticsFlow = flow({
+  name: "Connection Diagnostics",
+  stableKey: "connection-diagnostics",
+  description:
+    "Check the Shopify and Nautical Commerce connections and report each check as passed or failed",
+
+  onExecution: async (context) => {
+    const configVars = context.configVars as Record<string, unknown>;
+    const nauticalConnection = configVars["Nautical Connection"] as Connection;
+
+    try {
+      const report = await runDiagnostics(
+        () =>
+          createShopifyGraphqlClient(
+            configVars["Shopify Connection"] as Connection,
+            context
+          ),
+        () => createNauticalGraphqlClient(nauticalConnection),
+        util.types.toString(nauticalConnection.fields.tenantId),
+        OPERATIONS
+      );
+
+      for (const check of report.checks) {
+        const message = `${check.platform} ${check.name}: ${
+          check.passed ? "passed" : "failed"
+        }`;
+        if (check.passed) {
+          logInfo(context, message, { message: check.message });
+        } else {
+          logError(context, message, new Error(check.message));
+        }
+      }
+
+      return { data: report };
+    } catch (error) {
+      const formattedError =
+        error instanceof Error ? error : new Error(String(error));
+      logError(context, "Connection diagnostics failed", formattedError);
+      throw formattedError;
+    }
+  },
+});
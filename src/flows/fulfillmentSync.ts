@@ -0,0 +1,597 @@
+import { flow, type Connection } from "@prismatic-io/spectral";
+import { logInfo, logError } from "../utils/logging";
+import {
+  createShopifyGraphqlClient,
+  type ShopifyGraphqlClient,
+} from "../utils/shopifyGraphql";
+import {
+  createNauticalGraphqlClient,
+  type NauticalGraphqlClient,
+} from "../utils/nauticalGraphql";
+import { isDryRun, type PlannedChange } from "../utils/dryRun";
+import {
+  allocateFulfillmentLines,
+  type FulfilledLine,
+  type FulfillmentAllocation,
+  type FulfillmentOrderLineItems,
+  type ShopifyFulfillmentOrder,
+} from "../utils/fulfillments";
+import type { GraphqlOperations } from "../utils/diagnostics";
+
+// Number of Nautical fulfillment IDs remembered to avoid fulfilling twice
+const MAX_SYNCED_FULFILLMENT_IDS = 5000;
+
+// Lookback for the first run, before there is a watermark
+const INITIAL_LOOKBACK_HOURS = 24;
+
+// Shopify fulfillment orders per page, and line items per fulfillment order
+// on that page, keeping the query within Shopify's cost limit
+const FULFILLMENT_ORDERS_PAGE_SIZE = 10;
+const FULFILLMENT_ORDER_LINE_ITEMS_PAGE_SIZE = 50;
+
+// Page size when fetching the rest of one fulfillment order's line items
+const REMAINING_LINE_ITEMS_PAGE_SIZE = 250;
+
+interface NauticalFulfillment {
+  id: string;
+  status: string;
+  trackingNumber?: string | null;
+  trackingCompany?: string | null;
+  lines: FulfilledLine[];
+}
+
+interface NauticalFulfilledOrder {
+  id: string;
+  externalId?: string | null;
+  fulfillments: NauticalFulfillment[];
+}
+
+// Nautical order as the fulfillment queries return it
+interface NauticalFulfilledOrderNode {
+  id: string;
+  externalId?: string | null;
+  fulfillments?: (Omit<NauticalFulfillment, "lines"> & {
+    lines: { quantity: number; orderLine: { sku: string } }[];
+  })[];
+}
+
+interface NauticalFulfilledOrdersResponse {
+  orders: {
+    nodes: NauticalFulfilledOrderNode[];
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  };
+}
+
+// Shopify fulfillment order line items as the fulfillment order queries
+// return them
+interface ShopifyFulfillmentOrderLineItemPage {
+  nodes: {
+    id: string;
+    remainingQuantity: number;
+    lineItem: { sku: string | null };
+  }[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+interface ShopifyFulfillmentOrdersResponse {
+  order: {
+    fulfillmentOrders: {
+      nodes: {
+        id: string;
+        status: string;
+        assignedLocation: { location: { id: string } | null };
+        lineItems: ShopifyFulfillmentOrderLineItemPage;
+      }[];
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    };
+  } | null;
+}
+
+// Type for context.instanceState
+interface InstanceState {
+  // Start time of the last completed run
+  fulfillmentSyncWatermark?: string;
+  // Nautical orders whose fulfillments failed to sync, retried by ID
+  failedOrderIds?: string[];
+  syncedFulfillmentIds?: string[];
+  // Locations still to fulfill, keyed by Nautical fulfillment ID, for
+  // fulfillments that failed after some of their locations were fulfilled
+  pendingFulfillmentAllocations?: Record<string, FulfillmentAllocation[]>;
+}
+
+export const fulfillmentSyncFlow = flow({
+  name: "Fulfillment Sync",
+  stableKey: "fulfillment-sync",
+  description:
+    "Create Shopify fulfillments with tracking details for orders fulfilled in Nautical Commerce",
+  schedule: { value: "*/15 * * * *", timezone: "UTC" },
+
+  onExecution: async (context) => {
+    const configVars = context.configVars as Record<string, unknown>;
+    const shopifyClient = createShopifyGraphqlClient(
+      configVars["Shopify Connection"] as Connection,
+      context
+    );
+    const nauticalClient = createNauticalGraphqlClient(
+      configVars["Nautical Connection"] as Connection
+    );
+    const instanceState = context.instanceState as InstanceState;
+    const dryRun = isDryRun(configVars);
+    const runStartedAt = new Date().toISOString();
+    const updatedSince =
+      instanceState.fulfillmentSyncWatermark ??
+      new Date(
+        Date.now() - INITIAL_LOOKBACK_HOURS * 60 * 60 * 1000
+      ).toISOString();
+    const syncedIds = new Set(instanceState.syncedFulfillmentIds ?? []);
+
+    const results = {
+      ordersScanned: 0,
+      created: 0,
+      skipped: 0,
+      failed: 0,
+      retried: 0,
+      failedOrderIds: [] as string[],
+      changes: [] as PlannedChange<FulfillmentAllocation[]>[],
+    };
+    const seen = new Set<string>();
+
+    const syncOrders = async (orders: NauticalFulfilledOrder[]) => {
+      for (const order of orders) {
+        // An order retried from an earlier run may also have been updated
+        if (seen.has(order.id)) continue;
+        seen.add(order.id);
+        results.ordersScanned++;
+
+        // Only orders that came from Shopify can be fulfilled there
+        if (!order.externalId?.startsWith("gid://shopify/Order/")) {
+          results.skipped += order.fulfillments.length;
+          continue;
+        }
+
+        const pending = order.fulfillments.filter(
+          (fulfillment) =>
+            fulfillment.status === "FULFILLED" && !syncedIds.has(fulfillment.id)
+        );
+        if (pending.length === 0) continue;
+
+        try {
+          for (const fulfillment of pending) {
+            // Locations already fulfilled have left Shopify's remaining
+            // quantities, so a part-done fulfillment resumes where it stopped
+            const allocations =
+              instanceState.pendingFulfillmentAllocations?.[fulfillment.id] ??
+              allocateFulfillmentLines(
+                await fetchShopifyFulfillmentOrders(
+                  shopifyClient,
+                  order.externalId
+                ),
+                fulfillment.lines
+              );
+
+            if (dryRun) {
+              results.changes.push({
+                action: "create",
+                externalId: order.externalId,
+                nauticalId: fulfillment.id,
+                data: allocations,
+              });
+              results.created += allocations.length;
+              continue;
+            }
+
+            // Progress is saved after every Shopify fulfillment, so a run
+            // that stops part-way never fulfills a shipment twice
+            for (const [index, allocation] of allocations.entries()) {
+              await createShopifyFulfillment(
+                shopifyClient,
+                fulfillment,
+                allocation.lineItemsByFulfillmentOrder
+              );
+              results.created++;
+              instanceState.pendingFulfillmentAllocations =
+                withPendingAllocations(
+                  instanceState.pendingFulfillmentAllocations ?? {},
+                  fulfillment.id,
+                  allocations.slice(index + 1)
+                );
+            }
+            syncedIds.add(fulfillment.id);
+            instanceState.syncedFulfillmentIds = [...syncedIds].slice(
+              -MAX_SYNCED_FULFILLMENT_IDS
+            );
+          }
+        } catch (error) {
+          results.failed++;
+          results.failedOrderIds.push(order.id);
+          logError(
+            context,
+            `Failed to sync fulfillments for order ${order.externalId}`,
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+      }
+    };
+
+    try {
+      for (const orderId of instanceState.failedOrderIds ?? []) {
+        const order = await fetchFulfilledNauticalOrder(
+          nauticalClient,
+          orderId
+        );
+        // A deleted order has nothing left to fulfill
+        if (!order) continue;
+
+        results.retried++;
+        await syncOrders([order]);
+      }
+
+      for await (const orders of iterateFulfilledNauticalOrders(
+        nauticalClient,
+        updatedSince
+      )) {
+        await syncOrders(orders);
+      }
+
+      // Failed orders are retried by ID next run, so the watermark can move on
+      if (!dryRun) {
+        instanceState.fulfillmentSyncWatermark = runStartedAt;
+        instanceState.failedOrderIds = results.failedOrderIds;
+      }
+
+      logInfo(context, `Synced ${results.created} fulfillments to Shopify`, {
+        ordersScanned: results.ordersScanned,
+        created: results.created,
+        skipped: results.skipped,
+        failed: results.failed,
+        retried: results.retried,
+        failedOrderIds: results.failedOrderIds,
+        updatedSince,
+        dryRun,
+      });
+
+      return {
+        data: {
+          ...(dryRun ? { dryRun, changes: results.changes } : {}),
+          ordersScanned: results.ordersScanned,
+          created: results.created,
+          skipped: results.skipped,
+          failed: results.failed,
+          retried: results.retried,
+          failedOrderIds: results.failedOrderIds,
+          updatedSince,
+          message: `${dryRun ? "Dry run: would create" : "Created"} ${
+            results.created
+          } Shopify fulfillments`,
+        },
+      };
+    } catch (error) {
+      const formattedError =
+        error instanceof Error ? error : new Error(String(error));
+      logError(context, "Fulfillment sync failed", formattedError);
+      throw formattedError;
+    }
+  },
+});
+
+/**
+ * Record the locations of a Nautical fulfillment that are still to be
+ * fulfilled in Shopify
+ * @param pending Allocations still to send, keyed by Nautical fulfillment ID
+ * @param fulfillmentId ID of the Nautical fulfillment
+ * @param remaining Allocations of the fulfillment not sent yet
+ * @returns The updated allocations, without the fulfillment once it is done
+ */
+function withPendingAllocations(
+  pending: Record<string, FulfillmentAllocation[]>,
+  fulfillmentId: string,
+  remaining: FulfillmentAllocation[]
+): Record<string, FulfillmentAllocation[]> {
+  const others = Object.entries(pending).filter(([id]) => id !== fulfillmentId);
+  return Object.fromEntries(
+    remaining.length > 0 ? [...others, [fulfillmentId, remaining]] : others
+  );
+}
+
+// Nautical order fields read to sync its fulfillments
+const FULFILLED_ORDER_FIELDS = `
+  id
+  externalId
+  fulfillments {
+    id
+    status
+    trackingNumber
+    trackingCompany
+    lines {
+      quantity
+      orderLine {
+        sku
+      }
+    }
+  }
+`;
+
+const GET_FULFILLED_ORDERS_QUERY = `
+  query GetFulfilledOrders($updatedSince: DateTime!, $cursor: String) {
+    orders(
+      first: 50
+      after: $cursor
+      filter: { updatedAt: { gte: $updatedSince } }
+    ) {
+      nodes {
+        ${FULFILLED_ORDER_FIELDS}
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+const GET_FULFILLED_ORDER_QUERY = `
+  query GetFulfilledOrder($id: ID!) {
+    order(id: $id) {
+      ${FULFILLED_ORDER_FIELDS}
+    }
+  }
+`;
+
+// Flatten the order lines of each fulfillment to SKUs and quantities
+function toFulfilledOrder(
+  order: NauticalFulfilledOrderNode
+): NauticalFulfilledOrder {
+  return {
+    id: order.id,
+    externalId: order.externalId,
+    fulfillments: (order.fulfillments ?? []).map((fulfillment) => ({
+      ...fulfillment,
+      lines: fulfillment.lines.map((line) => ({
+        sku: line.orderLine.sku,
+        quantity: line.quantity,
+      })),
+    })),
+  };
+}
+
+/**
+ * Page through Nautical orders updated since the given time, with their
+ * fulfillments
+ * @param client Nautical GraphQL client
+ * @param updatedSince Only orders updated at or after this time are returned
+ * @returns Async iterator over pages of orders
+ */
+async function* iterateFulfilledNauticalOrders(
+  client: NauticalGraphqlClient,
+  updatedSince: string
+): AsyncGenerator<NauticalFulfilledOrder[]> {
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const { orders: page }: NauticalFulfilledOrdersResponse =
+      await client.query(
+        "Fetch Nautical Fulfillments",
+        GET_FULFILLED_ORDERS_QUERY,
+        {
+          updatedSince,
+          cursor,
+        }
+      );
+
+    yield page.nodes.map(toFulfilledOrder);
+
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+  }
+}
+
+/**
+ * Fetch one Nautical order with its fulfillments, to retry it by ID
+ * @param client Nautical GraphQL client
+ * @param orderId ID of the Nautical order
+ * @returns The order, or null when it no longer exists
+ */
+async function fetchFulfilledNauticalOrder(
+  client: NauticalGraphqlClient,
+  orderId: string
+): Promise<NauticalFulfilledOrder | null> {
+  const { order } = await client.query<{
+    order: NauticalFulfilledOrderNode | null;
+  }>("Fetch Nautical Order Fulfillments", GET_FULFILLED_ORDER_QUERY, {
+    id: orderId,
+  });
+
+  return order && toFulfilledOrder(order);
+}
+
+// Fulfillment order line item fields read for allocation
+const FULFILLMENT_ORDER_LINE_ITEM_FIELDS = `
+  nodes {
+    id
+    remainingQuantity
+    lineItem {
+      sku
+    }
+  }
+  pageInfo {
+    hasNextPage
+    endCursor
+  }
+`;
+
+const GET_FULFILLMENT_ORDERS_QUERY = `
+  query GetFulfillmentOrders($id: ID!, $cursor: String) {
+    order(id: $id) {
+      fulfillmentOrders(first: ${FULFILLMENT_ORDERS_PAGE_SIZE}, after: $cursor) {
+        nodes {
+          id
+          status
+          assignedLocation {
+            location {
+              id
+            }
+          }
+          lineItems(first: ${FULFILLMENT_ORDER_LINE_ITEMS_PAGE_SIZE}) {
+            ${FULFILLMENT_ORDER_LINE_ITEM_FIELDS}
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+const GET_FULFILLMENT_ORDER_LINE_ITEMS_QUERY = `
+  query GetFulfillmentOrderLineItems($id: ID!, $cursor: String) {
+    fulfillmentOrder(id: $id) {
+      lineItems(first: ${REMAINING_LINE_ITEMS_PAGE_SIZE}, after: $cursor) {
+        ${FULFILLMENT_ORDER_LINE_ITEM_FIELDS}
+      }
+    }
+  }
+`;
+
+/**
+ * Fetch every fulfillment order of a Shopify order with all of its line
+ * items, following the cursors of both
+ * @param client Shopify GraphQL client
+ * @param orderId GID of the Shopify order
+ * @returns The order's fulfillment orders
+ */
+async function fetchShopifyFulfillmentOrders(
+  client: ShopifyGraphqlClient,
+  orderId: string
+): Promise<ShopifyFulfillmentOrder[]> {
+  const fulfillmentOrders: ShopifyFulfillmentOrder[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const { order }: ShopifyFulfillmentOrdersResponse = await client.query(
+      "Fetch Shopify Fulfillment Orders",
+      GET_FULFILLMENT_ORDERS_QUERY,
+      {
+        id: orderId,
+        cursor,
+      }
+    );
+
+    if (!order) {
+      throw new Error(`Shopify order ${orderId} was not found`);
+    }
+
+    for (const fulfillmentOrder of order.fulfillmentOrders.nodes) {
+      const lineItems = [...fulfillmentOrder.lineItems.nodes];
+      let { hasNextPage: moreLineItems, endCursor: lineItemsCursor } =
+        fulfillmentOrder.lineItems.pageInfo;
+      while (moreLineItems) {
+        const page = await fetchFulfillmentOrderLineItems(
+          client,
+          fulfillmentOrder.id,
+          lineItemsCursor
+        );
+        lineItems.push(...page.nodes);
+        moreLineItems = page.pageInfo.hasNextPage;
+        lineItemsCursor = page.pageInfo.endCursor;
+      }
+
+      fulfillmentOrders.push({
+        id: fulfillmentOrder.id,
+        status: fulfillmentOrder.status,
+        assignedLocationId:
+          fulfillmentOrder.assignedLocation.location?.id ?? null,
+        lineItems: lineItems.map((lineItem) => ({
+          id: lineItem.id,
+          sku: lineItem.lineItem.sku,
+          remainingQuantity: lineItem.remainingQuantity,
+        })),
+      });
+    }
+
+    hasNextPage = order.fulfillmentOrders.pageInfo.hasNextPage;
+    cursor = order.fulfillmentOrders.pageInfo.endCursor;
+  }
+
+  return fulfillmentOrders;
+}
+
+async function fetchFulfillmentOrderLineItems(
+  client: ShopifyGraphqlClient,
+  fulfillmentOrderId: string,
+  cursor: string | null
+): Promise<ShopifyFulfillmentOrderLineItemPage> {
+  const { fulfillmentOrder } = await client.query<{
+    fulfillmentOrder: { lineItems: ShopifyFulfillmentOrderLineItemPage } | null;
+  }>(
+    "Fetch Shopify Fulfillment Order Line Items",
+    GET_FULFILLMENT_ORDER_LINE_ITEMS_QUERY,
+    { id: fulfillmentOrderId, cursor }
+  );
+
+  if (!fulfillmentOrder) {
+    throw new Error(
+      `Shopify fulfillment order ${fulfillmentOrderId} was not found`
+    );
+  }
+
+  return fulfillmentOrder.lineItems;
+}
+
+const CREATE_FULFILLMENT_MUTATION = `
+  mutation CreateFulfillment($fulfillment: FulfillmentInput!) {
+    fulfillmentCreate(fulfillment: $fulfillment) {
+      fulfillment {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Not sent again after a server error, as a second fulfillment would notify
+// the customer twice. The order is retried on the next run, from the
+// quantities Shopify still has to fulfill.
+async function createShopifyFulfillment(
+  client: ShopifyGraphqlClient,
+  fulfillment: NauticalFulfillment,
+  lineItemsByFulfillmentOrder: FulfillmentOrderLineItems[]
+) {
+  const { fulfillment: created } = await client.mutate<{
+    fulfillment: { id: string; status: string };
+  }>(
+    "Create Shopify Fulfillment",
+    CREATE_FULFILLMENT_MUTATION,
+    {
+      fulfillment: {
+        lineItemsByFulfillmentOrder,
+        notifyCustomer: true,
+        ...(fulfillment.trackingNumber && {
+          trackingInfo: {
+            number: fulfillment.trackingNumber,
+            company: fulfillment.trackingCompany ?? undefined,
+          },
+        }),
+      },
+    },
+    "fulfillmentCreate"
+  );
+
+  return created;
+}
+
+export const FULFILLMENT_SYNC_OPERATIONS: GraphqlOperations = {
+  shopify: [
+    GET_FULFILLMENT_ORDERS_QUERY,
+    GET_FULFILLMENT_ORDER_LINE_ITEMS_QUERY,
+    CREATE_FULFILLMENT_MUTATION,
+  ],
+  nautical: [GET_FULFILLED_ORDERS_QUERY, GET_FULFILLED_ORDER_QUERY],
+};
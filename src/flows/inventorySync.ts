@@ -1,23 +1,72 @@
-import { flow } from "@prismatic-io/spectral";
-import axios from "axios";
-import type { AxiosResponse } from "axios";
-import { withRetry, handleApiError } from "../utils/errorHandling";
+import { flow, type ActionContext } from "@prismatic-io/spectral";
 import { logInfo, logError } from "../utils/logging";
+import {
+  createShopifyGraphqlClient,
+  type ShopifyGraphqlClient,
+} from "../utils/shopifyGraphql";
+import {
+  createNauticalGraphqlClient,
+  type NauticalGraphqlClient,
+} from "../utils/nauticalGraphql";
+import {
+  parseLocationMapping,
+  buildLocationGroups,
+  type LocationGroup,
+} from "../utils/locationMapping";
+import {
+  parseSafetyStockRules,
+  resolveSafetyStock,
+  applySafetyStock,
+  spreadSafetyStock,
+  type SafetyStockRules,
+} from "../utils/safetyStock";
+import { isDryRun } from "../utils/dryRun";
 import type {
-  ShopifyConnection,
-  NauticalConnection,
   ShopifyInventoryItem,
+  ShopifyInventoryLevel,
+  ShopifyInventoryLevelNode,
   NauticalInventoryItem,
   InventoryUpdate,
+  InventorySourceOfTruth,
   ShopifyInventoryResponse,
+  ShopifyInventoryLevelWebhook,
   ConfigVars,
 } from "../types";
+import type { GraphqlOperations } from "../utils/diagnostics";
+
+interface NauticalInventoryVariant {
+  id: string;
+  sku: string;
+  inventoryQuantity: number;
+  externalId: string;
+  updatedAt?: string;
+  stocks: { warehouse: { id: string }; quantity: number }[] | null;
+}
+
+interface NauticalInventoryResponse {
+  productVariants: {
+    nodes: (NauticalInventoryVariant & {
+      product: { id: string; externalId: string; name: string };
+    })[];
+  };
+}
+
+// Updates listed in the flow result; the counts cover every update
+const RESULT_SAMPLE_SIZE = 50;
+
+// Inventory items per Shopify page; with 10 levels each this keeps a page
+// well under Shopify's 1000 point query cost limit
+const SHOPIFY_INVENTORY_PAGE_SIZE = 50;
+const SHOPIFY_LEVELS_PAGE_SIZE = 10;
 
 export const inventorySyncFlow = flow({
   name: "Inventory Sync",
   stableKey: "inventory-sync",
   description:
     "Synchronize inventory levels between Shopify and Nautical Commerce",
+  // Nightly reconciliation; individual changes arrive through the
+  // inventory_levels/update webhook
+  schedule: { value: "0 2 * * *", timezone: "UTC" },
   inputs: {
     shopifyConnection: {
       label: "Shopify Connection",
@@ -35,40 +84,119 @@ export const inventorySyncFlow = flow({
 
   onExecution: async (context, params) => {
     const configVars = context.configVars as ConfigVars;
-    const shopifyConnection = configVars.shopifyConnection;
-    const nauticalConnection = configVars.nauticalConnection;
+    const shopifyClient = createShopifyGraphqlClient(
+      configVars["Shopify Connection"],
+      context
+    );
+    const nauticalClient = createNauticalGraphqlClient(
+      configVars["Nautical Connection"]
+    );
+    const sourceOfTruth = configVars["Inventory Source of Truth"] ?? "Shopify";
+    const dryRun = isDryRun(configVars);
 
     try {
-      // Fetch inventory levels from both platforms
-      const shopifyInventory = await fetchShopifyInventory(shopifyConnection);
-      const nauticalInventory =
-        await fetchNauticalInventory(nauticalConnection);
-
-      // Determine inventory updates needed
-      const updates = calculateInventoryUpdates(
-        shopifyInventory,
-        nauticalInventory
+      // Sync each group of mapped Shopify locations with its warehouse
+      const locationGroups = buildLocationGroups(
+        await fetchShopifyLocations(shopifyClient),
+        parseLocationMapping(configVars["Inventory Location Mapping"]),
+        configVars["Unmapped Location Handling"] ?? "Ignore",
+        configVars["Default Warehouse"]
       );
-
-      // Apply updates to both platforms
-      await applyInventoryUpdates(
-        shopifyConnection,
-        nauticalConnection,
-        updates
+      const safetyStockRules = parseSafetyStockRules(
+        configVars["Global Safety Stock"],
+        configVars["Safety Stock by Product Type"],
+        configVars["Safety Stock by SKU"]
       );
 
+      // Reconcile Shopify inventory one page at a time, looking up only the
+      // Nautical variants that page needs
+      let shopifyItemsScanned = 0;
+      let nauticalItemsScanned = 0;
+      let shopifyUpdates = 0;
+      let nauticalUpdates = 0;
+      const appliedSample: InventoryUpdateSummary[] = [];
+      // A dry run reports every planned update, so the full diff is visible
+      const planned: InventoryUpdate[] = [];
+      for await (const page of iterateShopifyInventory(shopifyClient)) {
+        const nauticalBySku = await fetchNauticalInventoryBySku(
+          nauticalClient,
+          page.flatMap((item) => (item.sku ? [item.sku] : []))
+        );
+        nauticalItemsScanned += nauticalBySku.size;
+
+        const updates = calculateInventoryUpdates(
+          page,
+          nauticalBySku,
+          locationGroups,
+          safetyStockRules,
+          sourceOfTruth
+        );
+
+        // Apply updates to whichever platform is out of date
+        if (!dryRun) {
+          await applyInventoryUpdates(shopifyClient, nauticalClient, updates);
+        }
+
+        shopifyItemsScanned += page.length;
+        for (const update of updates) {
+          if (dryRun) {
+            planned.push(update);
+          } else if (appliedSample.length < RESULT_SAMPLE_SIZE) {
+            appliedSample.push(summarizeUpdate(update));
+          }
+          if (update.target === "shopify") {
+            shopifyUpdates++;
+          } else {
+            nauticalUpdates++;
+          }
+        }
+      }
+
+      const updatesApplied = shopifyUpdates + nauticalUpdates;
+      const itemsScanned = shopifyItemsScanned + nauticalItemsScanned;
+
       logInfo(
         context,
-        `Successfully synchronized inventory for ${updates.length} products`,
+        `Successfully synchronized inventory for ${updatesApplied} products`,
         {
-          updatesApplied: updates.length,
+          updatesApplied,
+          shopifyUpdates,
+          nauticalUpdates,
+          itemsScanned,
+          sourceOfTruth,
+          warehouses: locationGroups.filter((group) => group.warehouseId)
+            .length,
         }
       );
 
+      if (dryRun) {
+        return {
+          data: {
+            dryRun,
+            shopifyUpdates,
+            nauticalUpdates,
+            itemsScanned,
+            shopifyItemsScanned,
+            nauticalItemsScanned,
+            sourceOfTruth,
+            updates: planned,
+            message: `Dry run: would update ${shopifyUpdates} items in Shopify and ${nauticalUpdates} in Nautical`,
+          },
+        };
+      }
+
       return {
         data: {
-          updatesApplied: updates.length,
-          message: `Successfully synchronized inventory for ${updates.length} products`,
+          updatesApplied,
+          shopifyUpdates,
+          nauticalUpdates,
+          itemsScanned,
+          shopifyItemsScanned,
+          nauticalItemsScanned,
+          sourceOfTruth,
+          updates: appliedSample,
+          updatesOmitted: updatesApplied - appliedSample.length,
+          message: `Successfully synchronized inventory for ${updatesApplied} products`,
         },
       };
     } catch (error) {
@@ -78,161 +206,637 @@ export const inventorySyncFlow = flow({
   },
 });
 
+/**
+ * Handle an inventory_levels/update webhook routed from the Shopify webhook
+ * flow by updating the matching Nautical variant
+ * @param context The action context
+ * @param topic Shopify webhook topic
+ * @param data Parsed webhook body
+ * @returns Whether the change was applied, and the quantity written
+ */
+export async function handleInventoryLevelWebhook(
+  context: ActionContext,
+  topic: string,
+  data: ShopifyInventoryLevelWebhook
+) {
+  const configVars = context.configVars as unknown as ConfigVars;
+
+  // With Nautical as the master, the nightly scan corrects Shopify instead
+  if (configVars["Inventory Source of Truth"] === "Nautical") {
+    logInfo(
+      context,
+      `Skipped ${topic} webhook; Nautical is the source of truth`,
+      {
+        inventoryItemId: data.inventory_item_id,
+      }
+    );
+    return { applied: false };
+  }
+
+  return await applyShopifyStockChange(context, topic, {
+    inventoryItemId: `gid://shopify/InventoryItem/${data.inventory_item_id}`,
+    locationId: `gid://shopify/Location/${data.location_id}`,
+  });
+}
+
+/**
+ * Bring Nautical stock in line after Shopify restocked refunded or cancelled
+ * items. When Shopify is the source of truth the variant is resynced from
+ * Shopify, otherwise the restocked quantity is added to Nautical's stock.
+ * @param context The action context
+ * @param topic Shopify webhook topic that reported the restock
+ * @param restock The restocked Shopify variant, location and quantity
+ * @returns Whether the change was applied, and the quantity written
+ */
+export async function restockNauticalInventory(
+  context: ActionContext,
+  topic: string,
+  restock: { variantId: string; locationId: string; quantity: number }
+) {
+  const configVars = context.configVars as unknown as ConfigVars;
+  const inventoryItemId = await fetchShopifyInventoryItemId(
+    createShopifyGraphqlClient(configVars["Shopify Connection"], context),
+    restock.variantId
+  );
+  if (!inventoryItemId) {
+    logInfo(
+      context,
+      `Skipped restock for unknown variant ${restock.variantId}`
+    );
+    return { applied: false };
+  }
+
+  return await applyShopifyStockChange(context, topic, {
+    inventoryItemId,
+    locationId: restock.locationId,
+    restockedQuantity:
+      configVars["Inventory Source of Truth"] === "Nautical"
+        ? restock.quantity
+        : undefined,
+  });
+}
+
+/**
+ * Write the Shopify stock of one inventory item to its Nautical variant, or
+ * add a restocked quantity to the variant's current Nautical stock
+ * @param context The action context
+ * @param topic Shopify webhook topic that reported the change
+ * @param change Changed inventory item and location, and any restocked quantity
+ * @returns Whether the change was applied, and the quantity written
+ */
+async function applyShopifyStockChange(
+  context: ActionContext,
+  topic: string,
+  change: {
+    inventoryItemId: string;
+    locationId: string;
+    restockedQuantity?: number;
+  }
+) {
+  const configVars = context.configVars as unknown as ConfigVars;
+  const { inventoryItemId, locationId, restockedQuantity } = change;
+
+  const shopifyItem = await fetchShopifyInventoryItem(
+    createShopifyGraphqlClient(configVars["Shopify Connection"], context),
+    inventoryItemId
+  );
+  if (!shopifyItem?.sku) {
+    logInfo(context, `Skipped ${topic} webhook for an item without a SKU`, {
+      inventoryItemId,
+    });
+    return { applied: false };
+  }
+
+  const nauticalClient = createNauticalGraphqlClient(
+    configVars["Nautical Connection"]
+  );
+  const variant = await findNauticalVariantBySku(
+    nauticalClient,
+    shopifyItem.sku
+  );
+  if (!variant) {
+    logInfo(context, `No Nautical variant found for SKU ${shopifyItem.sku}`, {
+      inventoryItemId,
+    });
+    return { applied: false, sku: shopifyItem.sku };
+  }
+
+  // Only the warehouse the changed location belongs to needs updating
+  const groups = buildLocationGroups(
+    shopifyItem.levels.map((level) => level.location),
+    parseLocationMapping(configVars["Inventory Location Mapping"]),
+    configVars["Unmapped Location Handling"] ?? "Ignore",
+    configVars["Default Warehouse"]
+  ).map((candidate) => ({
+    group: candidate,
+    shopifyQuantity: shopifyItem.levels
+      .filter((level) =>
+        candidate.shopifyLocationIds.includes(level.location.id)
+      )
+      .reduce((sum, level) => sum + level.available, 0),
+  }));
+  const groupIndex = groups.findIndex(({ group: candidate }) =>
+    candidate.shopifyLocationIds.includes(locationId)
+  );
+  if (groupIndex === -1) {
+    logInfo(context, `Skipped ${topic} webhook for an unmapped location`, {
+      sku: shopifyItem.sku,
+      locationId,
+    });
+    return { applied: false, sku: shopifyItem.sku };
+  }
+
+  const { group, shopifyQuantity: rawQuantity } = groups[groupIndex];
+  // The SKU's safety stock is shared with its other warehouses
+  const safetyStock = shareSafetyStock(
+    resolveSafetyStock(
+      parseSafetyStockRules(
+        configVars["Global Safety Stock"],
+        configVars["Safety Stock by Product Type"],
+        configVars["Safety Stock by SKU"]
+      ),
+      shopifyItem.sku,
+      shopifyItem.productType
+    ),
+    groups
+  )[groupIndex];
+  const currentNauticalQuantity = group.warehouseId
+    ? variant.stocks.find((stock) => stock.warehouseId === group.warehouseId)
+        ?.quantity ?? 0
+    : variant.quantity;
+  const quantity =
+    restockedQuantity === undefined
+      ? applySafetyStock(rawQuantity, safetyStock)
+      : currentNauticalQuantity + restockedQuantity;
+
+  if (isDryRun(configVars)) {
+    return {
+      applied: false,
+      dryRun: true,
+      sku: shopifyItem.sku,
+      nauticalVariantId: variant.variantId,
+      rawQuantity,
+      safetyStock,
+      quantity,
+      warehouseId: group.warehouseId,
+    };
+  }
+
+  if (group.warehouseId) {
+    await updateNauticalWarehouseStock(
+      nauticalClient,
+      variant.variantId,
+      group.warehouseId,
+      quantity
+    );
+  } else {
+    await updateNauticalInventory(nauticalClient, variant.variantId, quantity);
+  }
+
+  logInfo(context, `Updated Nautical inventory for SKU ${shopifyItem.sku}`, {
+    topic,
+    sku: shopifyItem.sku,
+    rawQuantity,
+    safetyStock,
+    restockedQuantity,
+    quantity,
+    warehouseId: group.warehouseId,
+  });
+
+  return {
+    applied: true,
+    sku: shopifyItem.sku,
+    rawQuantity,
+    safetyStock,
+    quantity,
+    warehouseId: group.warehouseId,
+  };
+}
+
+const GET_LOCATIONS_QUERY = `
+  query GetLocations($cursor: String) {
+    locations(first: 100, after: $cursor) {
+      nodes {
+        id
+        name
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
 // Helper functions for inventory sync
-async function fetchShopifyInventory(
-  connection: ShopifyConnection
-): Promise<ShopifyInventoryItem[]> {
-  const query = `
-    query GetInventoryLevels {
-      inventoryItems(first: 250) {
-        edges {
-          node {
-            id
-            inventoryLevels(first: 50) {
-              edges {
-                node {
+async function fetchShopifyLocations(
+  client: ShopifyGraphqlClient
+): Promise<{ id: string; name: string }[]> {
+  const locations: { id: string; name: string }[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const {
+      locations: page,
+    }: {
+      locations: {
+        nodes: { id: string; name: string }[];
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      };
+    } = await client.query("Fetch Shopify Locations", GET_LOCATIONS_QUERY, {
+      cursor,
+    });
+
+    locations.push(...page.nodes);
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+  }
+
+  return locations;
+}
+
+const GET_INVENTORY_LEVELS_QUERY = `
+  query GetInventoryLevels($cursor: String, $first: Int!, $levels: Int!) {
+    inventoryItems(first: $first, after: $cursor) {
+      edges {
+        node {
+          id
+          inventoryLevels(first: $levels) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            edges {
+              node {
+                id
+                quantities(names: ["available"]) {
+                  name
+                  quantity
+                }
+                updatedAt
+                location {
                   id
-                  available
-                  location {
-                    id
-                    name
-                  }
+                  name
                 }
               }
             }
-            variant {
+          }
+          variant {
+            id
+            sku
+            product {
               id
-              sku
-              product {
-                id
-                title
-              }
+              title
+              productType
             }
           }
         }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+/**
+ * Page through every Shopify inventory item, following cursors until the
+ * last page. Items at more locations than fit on a page have their
+ * remaining levels fetched separately. Only one page is held in memory at a
+ * time.
+ * @param client Shopify GraphQL client
+ * @returns Async iterator over pages of inventory items
+ */
+async function* iterateShopifyInventory(
+  client: ShopifyGraphqlClient
+): AsyncGenerator<ShopifyInventoryItem[]> {
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const response: ShopifyInventoryResponse["data"] = await client.query(
+      "Fetch Shopify Inventory",
+      GET_INVENTORY_LEVELS_QUERY,
+      {
+        cursor,
+        first: SHOPIFY_INVENTORY_PAGE_SIZE,
+        levels: SHOPIFY_LEVELS_PAGE_SIZE,
+      }
+    );
+
+    const { edges, pageInfo } = response.inventoryItems;
+    const items: ShopifyInventoryItem[] = [];
+    for (const { node } of edges) {
+      const levels = node.inventoryLevels.edges.map((levelEdge) =>
+        toInventoryLevel(levelEdge.node)
+      );
+      if (node.inventoryLevels.pageInfo.hasNextPage) {
+        levels.push(
+          ...(await fetchRemainingInventoryLevels(
+            client,
+            node.id,
+            node.inventoryLevels.pageInfo.endCursor
+          ))
+        );
+      }
+
+      items.push({
+        id: node.id,
+        variantId: node.variant?.id,
+        sku: node.variant?.sku,
+        productId: node.variant?.product?.id,
+        productTitle: node.variant?.product?.title,
+        productType: node.variant?.product?.productType,
+        levels,
+      });
+    }
+    yield items;
+
+    hasNextPage = pageInfo.hasNextPage;
+    cursor = pageInfo.endCursor;
+  }
+}
+
+const GET_REMAINING_INVENTORY_LEVELS_QUERY = `
+  query GetRemainingInventoryLevels($id: ID!, $cursor: String) {
+    inventoryItem(id: $id) {
+      inventoryLevels(first: 100, after: $cursor) {
+        nodes {
+          id
+          quantities(names: ["available"]) {
+            name
+            quantity
+          }
+          updatedAt
+          location {
+            id
+            name
+          }
+        }
         pageInfo {
           hasNextPage
           endCursor
         }
       }
     }
-  `;
-
-  try {
-    const response = (await withRetry(() =>
-      axios({
-        url: connection.apiUrl,
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Shopify-Access-Token": connection.accessToken,
-        },
-        data: {
-          query,
-        },
-      })
-    )) as AxiosResponse<ShopifyInventoryResponse>;
-
-    // Process and return the inventory items
-    return response.data.data.inventoryItems.edges.map(
-      (edge: {
-        node: ShopifyInventoryResponse["data"]["inventoryItems"]["edges"][0]["node"];
-      }) => {
-        const node = edge.node;
-        return {
-          id: node.id,
-          variantId: node.variant?.id,
-          sku: node.variant?.sku,
-          productId: node.variant?.product?.id,
-          productTitle: node.variant?.product?.title,
-          levels: node.inventoryLevels.edges.map(
-            (levelEdge: {
-              node: ShopifyInventoryResponse["data"]["inventoryItems"]["edges"][0]["node"]["inventoryLevels"]["edges"][0]["node"];
-            }) => ({
-              id: levelEdge.node.id,
-              available: levelEdge.node.available,
-              location: levelEdge.node.location,
-            })
-          ),
+  }
+`;
+
+/**
+ * Follow the inventory level cursor of one item until all levels are loaded
+ * @param client Shopify GraphQL client
+ * @param inventoryItemId GID of the inventory item
+ * @param cursor Cursor after the levels already loaded
+ * @returns The item's remaining inventory levels
+ */
+async function fetchRemainingInventoryLevels(
+  client: ShopifyGraphqlClient,
+  inventoryItemId: string,
+  cursor: string | null
+): Promise<ShopifyInventoryLevel[]> {
+  const levels: ShopifyInventoryLevel[] = [];
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const response: {
+      inventoryItem: {
+        inventoryLevels: {
+          nodes: ShopifyInventoryLevelNode[];
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
         };
+      } | null;
+    } = await client.query(
+      "Fetch Shopify Inventory Levels",
+      GET_REMAINING_INVENTORY_LEVELS_QUERY,
+      {
+        id: inventoryItemId,
+        cursor,
       }
     );
-  } catch (error) {
-    throw handleApiError(error, "Fetch Shopify Inventory");
+    if (!response.inventoryItem) break;
+
+    const { nodes, pageInfo } = response.inventoryItem.inventoryLevels;
+    levels.push(...nodes.map(toInventoryLevel));
+    hasNextPage = pageInfo.hasNextPage;
+    cursor = pageInfo.endCursor;
   }
+
+  return levels;
 }
 
-async function fetchNauticalInventory(
-  connection: NauticalConnection
-): Promise<NauticalInventoryItem[]> {
-  const query = `
-    query GetInventory {
-      products(first: 250) {
-        nodes {
+const GET_INVENTORY_BY_SKU_QUERY = `
+  query GetInventoryBySku($skus: [String!]!, $first: Int!) {
+    productVariants(first: $first, filter: { sku: $skus }) {
+      nodes {
+        id
+        sku
+        inventoryQuantity
+        externalId
+        updatedAt
+        stocks {
+          warehouse {
+            id
+          }
+          quantity
+        }
+        product {
           id
           externalId
           name
-          variants {
-            nodes {
-              id
-              sku
-              inventoryQuantity
-              externalId
-            }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Look up the Nautical variants for a page of Shopify SKUs
+ * @param client Nautical GraphQL client
+ * @param skus SKUs on the Shopify page
+ * @returns Variant inventory keyed by SKU, for the SKUs Nautical knows
+ */
+async function fetchNauticalInventoryBySku(
+  client: NauticalGraphqlClient,
+  skus: string[]
+): Promise<Map<string, NauticalInventoryItem>> {
+  const bySku = new Map<string, NauticalInventoryItem>();
+  const uniqueSkus = [...new Set(skus)];
+  if (uniqueSkus.length === 0) return bySku;
+
+  const response: NauticalInventoryResponse = await client.query(
+    "Fetch Nautical Inventory",
+    GET_INVENTORY_BY_SKU_QUERY,
+    { skus: uniqueSkus, first: uniqueSkus.length }
+  );
+
+  for (const variant of response.productVariants.nodes) {
+    bySku.set(variant.sku, {
+      productId: variant.product.id,
+      productExternalId: variant.product.externalId,
+      productName: variant.product.name,
+      variantId: variant.id,
+      variantExternalId: variant.externalId,
+      sku: variant.sku,
+      quantity: variant.inventoryQuantity,
+      updatedAt: variant.updatedAt,
+      stocks: (variant.stocks ?? []).map((stock) => ({
+        warehouseId: stock.warehouse.id,
+        quantity: stock.quantity,
+      })),
+    });
+  }
+
+  return bySku;
+}
+
+const GET_INVENTORY_ITEM_QUERY = `
+  query GetInventoryItem($id: ID!) {
+    inventoryItem(id: $id) {
+      id
+      sku
+      variant {
+        id
+        product {
+          productType
+        }
+      }
+      inventoryLevels(first: 50) {
+        nodes {
+          id
+          quantities(names: ["available"]) {
+            name
+            quantity
+          }
+          updatedAt
+          location {
+            id
+            name
           }
         }
       }
     }
-  `;
-
-  try {
-    const response = await withRetry(() =>
-      axios({
-        url: connection.apiUrl,
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${connection.apiKey}`,
-          "x-nautical-tenant": connection.tenantId,
-        },
-        data: {
-          query,
-        },
-      })
-    );
+  }
+`;
+
+async function fetchShopifyInventoryItem(
+  client: ShopifyGraphqlClient,
+  inventoryItemId: string
+): Promise<ShopifyInventoryItem | null> {
+  const { inventoryItem: item } = await client.query<{
+    inventoryItem: {
+      id: string;
+      sku: string | null;
+      variant: { id: string; product: { productType: string } | null } | null;
+      inventoryLevels: { nodes: ShopifyInventoryLevelNode[] };
+    } | null;
+  }>("Fetch Shopify Inventory Item", GET_INVENTORY_ITEM_QUERY, {
+    id: inventoryItemId,
+  });
+
+  if (!item) {
+    return null;
+  }
+
+  return {
+    id: item.id,
+    variantId: item.variant?.id,
+    sku: item.sku ?? undefined,
+    productType: item.variant?.product?.productType,
+    levels: item.inventoryLevels.nodes.map(toInventoryLevel),
+  };
+}
+
+// Read the available quantity out of a level's named quantities
+function toInventoryLevel(
+  node: ShopifyInventoryLevelNode
+): ShopifyInventoryLevel {
+  return {
+    id: node.id,
+    available:
+      node.quantities.find((quantity) => quantity.name === "available")
+        ?.quantity ?? 0,
+    updatedAt: node.updatedAt,
+    location: node.location,
+  };
+}
 
-    // Process and return the inventory items
-    const products = response.data.data.products.nodes;
-    const inventory: NauticalInventoryItem[] = [];
-
-    for (const product of products) {
-      for (const variant of product.variants.nodes) {
-        inventory.push({
-          productId: product.id,
-          productExternalId: product.externalId,
-          productName: product.name,
-          variantId: variant.id,
-          variantExternalId: variant.externalId,
-          sku: variant.sku,
-          quantity: variant.inventoryQuantity,
-        });
+const GET_VARIANT_INVENTORY_ITEM_QUERY = `
+  query GetVariantInventoryItem($id: ID!) {
+    productVariant(id: $id) {
+      inventoryItem {
+        id
       }
     }
+  }
+`;
 
-    return inventory;
-  } catch (error) {
-    throw handleApiError(error, "Fetch Nautical Inventory");
+async function fetchShopifyInventoryItemId(
+  client: ShopifyGraphqlClient,
+  variantId: string
+): Promise<string | null> {
+  const { productVariant } = await client.query<{
+    productVariant: { inventoryItem: { id: string } } | null;
+  }>("Fetch Shopify Variant Inventory Item", GET_VARIANT_INVENTORY_ITEM_QUERY, {
+    id: variantId,
+  });
+
+  return productVariant?.inventoryItem.id ?? null;
+}
+
+const FIND_VARIANT_QUERY = `
+  query FindVariant($sku: String!) {
+    productVariant(sku: $sku) {
+      id
+      inventoryQuantity
+      stocks {
+        warehouse {
+          id
+        }
+        quantity
+      }
+    }
   }
+`;
+
+async function findNauticalVariantBySku(
+  client: NauticalGraphqlClient,
+  sku: string
+): Promise<Pick<
+  NauticalInventoryItem,
+  "variantId" | "sku" | "quantity" | "stocks"
+> | null> {
+  const { productVariant: variant } = await client.query<{
+    productVariant: Pick<
+      NauticalInventoryVariant,
+      "id" | "inventoryQuantity" | "stocks"
+    > | null;
+  }>("Find Nautical Variant", FIND_VARIANT_QUERY, { sku });
+
+  if (!variant) {
+    return null;
+  }
+
+  return {
+    variantId: variant.id,
+    sku,
+    quantity: variant.inventoryQuantity,
+    stocks: (variant.stocks ?? []).map((stock) => ({
+      warehouseId: stock.warehouse.id,
+      quantity: stock.quantity,
+    })),
+  };
 }
 
 function calculateInventoryUpdates(
   shopifyInventory: ShopifyInventoryItem[],
-  nauticalInventory: NauticalInventoryItem[]
+  nauticalBySku: Map<string, NauticalInventoryItem>,
+  locationGroups: LocationGroup[],
+  safetyStockRules: SafetyStockRules,
+  sourceOfTruth: InventorySourceOfTruth
 ): InventoryUpdate[] {
   const updates: InventoryUpdate[] = [];
-  const nauticalBySku = new Map(
-    nauticalInventory.map((item) => [item.sku, item])
-  );
 
   for (const shopifyItem of shopifyInventory) {
     if (!shopifyItem.sku || !shopifyItem.variantId) continue;
@@ -240,20 +844,69 @@ function calculateInventoryUpdates(
     const nauticalItem = nauticalBySku.get(shopifyItem.sku);
     if (!nauticalItem) continue;
 
-    const shopifyQuantity = shopifyItem.levels.reduce(
-      (sum, level) => sum + level.available,
-      0
+    const groups = locationGroups.map((group) => {
+      const levels = shopifyItem.levels.filter((level) =>
+        group.shopifyLocationIds.includes(level.location.id)
+      );
+      return {
+        group,
+        levels,
+        shopifyQuantity: levels.reduce(
+          (sum, level) => sum + level.available,
+          0
+        ),
+      };
+    });
+    const safetyStockShares = shareSafetyStock(
+      resolveSafetyStock(
+        safetyStockRules,
+        shopifyItem.sku,
+        shopifyItem.productType
+      ),
+      groups
     );
-    const targetQuantity = Math.min(shopifyQuantity, nauticalItem.quantity);
 
-    if (shopifyQuantity !== targetQuantity) {
+    for (const [
+      index,
+      { group, levels, shopifyQuantity },
+    ] of groups.entries()) {
+      const safetyStock = safetyStockShares[index];
+      const nauticalQuantity = group.warehouseId
+        ? nauticalItem.stocks.find(
+            (stock) => stock.warehouseId === group.warehouseId
+          )?.quantity ?? 0
+        : nauticalItem.quantity;
+
+      // Nautical only ever sees Shopify stock minus the safety stock
+      const bufferedQuantity = applySafetyStock(shopifyQuantity, safetyStock);
+      if (bufferedQuantity === nauticalQuantity) continue;
+
+      // When Shopify is corrected, it keeps the safety stock on top of what
+      // Nautical holds so the two sides agree on the next run
+      const target = shopifyWins(sourceOfTruth, levels, nauticalItem)
+        ? "nautical"
+        : "shopify";
+      const targetQuantity =
+        target === "nautical"
+          ? bufferedQuantity
+          : nauticalQuantity + safetyStock;
+
       updates.push({
         sku: shopifyItem.sku,
         shopifyVariantId: shopifyItem.variantId,
         nauticalVariantId: nauticalItem.variantId,
+        shopifyInventoryItemId: shopifyItem.id,
         shopifyQuantity,
-        nauticalQuantity: nauticalItem.quantity,
+        safetyStock,
+        bufferedQuantity,
+        nauticalQuantity,
         targetQuantity,
+        nauticalWarehouseId: group.warehouseId,
+        target,
+        shopifyChanges:
+          target === "shopify"
+            ? distributeShopifyDelta(levels, targetQuantity - shopifyQuantity)
+            : [],
       });
     }
   }
@@ -261,61 +914,258 @@ function calculateInventoryUpdates(
   return updates;
 }
 
+/**
+ * Split a SKU's safety stock over its location groups. Groups are taken in
+ * warehouse ID order, so the nightly sync and the inventory webhook split it
+ * the same way whatever order the locations come in.
+ * @param safetyStock Units to hold back for the SKU
+ * @param groups Location groups with the SKU's raw Shopify quantity in each
+ * @returns Units to hold back in each group, in the order given
+ */
+function shareSafetyStock(
+  safetyStock: number,
+  groups: { group: LocationGroup; shopifyQuantity: number }[]
+): number[] {
+  const order = groups
+    .map((_group, index) => index)
+    .sort((a, b) =>
+      (groups[a].group.warehouseId ?? "").localeCompare(
+        groups[b].group.warehouseId ?? ""
+      )
+    );
+  const shares = spreadSafetyStock(
+    safetyStock,
+    order.map((index) => groups[index].shopifyQuantity)
+  );
+
+  const sharesByGroup = new Array<number>(groups.length);
+  order.forEach((index, position) => {
+    sharesByGroup[index] = shares[position];
+  });
+  return sharesByGroup;
+}
+
+// Audit record of an update, returned in the flow result
+type InventoryUpdateSummary = Pick<
+  InventoryUpdate,
+  | "sku"
+  | "target"
+  | "nauticalWarehouseId"
+  | "shopifyQuantity"
+  | "safetyStock"
+  | "bufferedQuantity"
+  | "nauticalQuantity"
+  | "targetQuantity"
+>;
+
+function summarizeUpdate(update: InventoryUpdate): InventoryUpdateSummary {
+  return {
+    sku: update.sku,
+    target: update.target,
+    nauticalWarehouseId: update.nauticalWarehouseId,
+    shopifyQuantity: update.shopifyQuantity,
+    safetyStock: update.safetyStock,
+    bufferedQuantity: update.bufferedQuantity,
+    nauticalQuantity: update.nauticalQuantity,
+    targetQuantity: update.targetQuantity,
+  };
+}
+
+/**
+ * Decide whether Shopify's quantity should be copied to Nautical or the
+ * other way around
+ * @param sourceOfTruth Configured master system
+ * @param levels Shopify inventory levels being compared
+ * @param nauticalItem Matching variant in Nautical
+ * @returns True when Shopify holds the correct quantity
+ */
+function shopifyWins(
+  sourceOfTruth: InventorySourceOfTruth,
+  levels: ShopifyInventoryItem["levels"],
+  nauticalItem: NauticalInventoryItem
+): boolean {
+  if (sourceOfTruth === "Shopify") return true;
+  if (sourceOfTruth === "Nautical") return false;
+
+  // Last writer wins; without timestamps on both sides, fall back to Shopify
+  const shopifyUpdatedAt = Math.max(
+    ...levels.map((level) => Date.parse(level.updatedAt ?? ""))
+  );
+  const nauticalUpdatedAt = Date.parse(nauticalItem.updatedAt ?? "");
+  if (Number.isNaN(shopifyUpdatedAt) || Number.isNaN(nauticalUpdatedAt)) {
+    return true;
+  }
+  return shopifyUpdatedAt >= nauticalUpdatedAt;
+}
+
+/**
+ * Spread a change in available quantity over an item's Shopify locations.
+ * Stock is added at the first location and removed from the fullest
+ * locations first, so no location is taken below zero while stock remains.
+ * @param levels Inventory levels of the item
+ * @param delta Change in total available quantity
+ * @returns Adjustments per location
+ */
+function distributeShopifyDelta(
+  levels: ShopifyInventoryItem["levels"],
+  delta: number
+): InventoryUpdate["shopifyChanges"] {
+  if (levels.length === 0 || delta === 0) return [];
+  if (delta > 0) return [{ locationId: levels[0].location.id, delta }];
+
+  const changes: InventoryUpdate["shopifyChanges"] = [];
+  let remaining = -delta;
+  const byAvailable = [...levels].sort((a, b) => b.available - a.available);
+
+  for (const level of byAvailable) {
+    if (remaining === 0) break;
+    const taken = Math.min(Math.max(level.available, 0), remaining);
+    if (taken > 0) {
+      changes.push({ locationId: level.location.id, delta: -taken });
+      remaining -= taken;
+    }
+  }
+
+  return changes;
+}
+
 async function applyInventoryUpdates(
-  shopifyConn: ShopifyConnection,
-  nauticalConn: NauticalConnection,
+  shopifyClient: ShopifyGraphqlClient,
+  nauticalClient: NauticalGraphqlClient,
   updates: InventoryUpdate[]
 ): Promise<void> {
   const updatePromises = updates.map(async (update) => {
-    await updateNauticalInventory(
-      nauticalConn,
-      update.nauticalVariantId,
-      update.targetQuantity
-    );
+    if (update.target === "shopify") {
+      await adjustShopifyInventory(shopifyClient, update);
+    } else if (update.nauticalWarehouseId) {
+      await updateNauticalWarehouseStock(
+        nauticalClient,
+        update.nauticalVariantId,
+        update.nauticalWarehouseId,
+        update.targetQuantity
+      );
+    } else {
+      await updateNauticalInventory(
+        nauticalClient,
+        update.nauticalVariantId,
+        update.targetQuantity
+      );
+    }
   });
 
   await Promise.all(updatePromises);
 }
 
+const ADJUST_INVENTORY_MUTATION = `
+  mutation AdjustInventory($input: InventoryAdjustQuantitiesInput!) {
+    inventoryAdjustQuantities(input: $input) {
+      inventoryAdjustmentGroup {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Adjustments are deltas, so one that fails with a server error is not sent
+// again. The next run works out the delta afresh from Shopify's levels.
+async function adjustShopifyInventory(
+  client: ShopifyGraphqlClient,
+  update: InventoryUpdate
+): Promise<void> {
+  if (update.shopifyChanges.length === 0) return;
+
+  await client.mutate(
+    "Adjust Shopify Inventory",
+    ADJUST_INVENTORY_MUTATION,
+    {
+      input: {
+        name: "available",
+        reason: "correction",
+        changes: update.shopifyChanges.map((change) => ({
+          inventoryItemId: update.shopifyInventoryItemId,
+          locationId: change.locationId,
+          delta: change.delta,
+        })),
+      },
+    },
+    "inventoryAdjustQuantities"
+  );
+}
+
+const UPDATE_INVENTORY_MUTATION = `
+  mutation UpdateInventory($variantId: ID!, $quantity: Int!) {
+    updateVariantInventory(input: {
+      variantId: $variantId,
+      quantity: $quantity
+    }) {
+      variant {
+        id
+        inventoryQuantity
+      }
+    }
+  }
+`;
+
 async function updateNauticalInventory(
-  connection: NauticalConnection,
+  client: NauticalGraphqlClient,
   variantId: string,
   quantity: number
 ): Promise<void> {
-  const mutation = `
-    mutation UpdateInventory($variantId: ID!, $quantity: Int!) {
-      updateVariantInventory(input: {
-        variantId: $variantId,
-        quantity: $quantity
-      }) {
-        variant {
-          id
-          inventoryQuantity
-        }
+  await client.mutate(
+    "Update Nautical Inventory",
+    UPDATE_INVENTORY_MUTATION,
+    { variantId, quantity },
+    "updateVariantInventory",
+    { idempotent: true }
+  );
+}
+
+const UPDATE_WAREHOUSE_STOCK_MUTATION = `
+  mutation UpdateWarehouseStock($variantId: ID!, $stocks: [StockInput!]!) {
+    productVariantStocksUpdate(variantId: $variantId, stocks: $stocks) {
+      productVariant {
+        id
+      }
+      errors {
+        field
+        message
       }
     }
-  `;
-
-  try {
-    await withRetry(() =>
-      axios({
-        url: connection.apiUrl,
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${connection.apiKey}`,
-          "x-nautical-tenant": connection.tenantId,
-        },
-        data: {
-          query: mutation,
-          variables: {
-            variantId,
-            quantity,
-          },
-        },
-      })
-    );
-  } catch (error) {
-    throw handleApiError(error, "Update Nautical Inventory");
   }
+`;
+
+async function updateNauticalWarehouseStock(
+  client: NauticalGraphqlClient,
+  variantId: string,
+  warehouseId: string,
+  quantity: number
+): Promise<void> {
+  await client.mutate(
+    "Update Nautical Warehouse Stock",
+    UPDATE_WAREHOUSE_STOCK_MUTATION,
+    { variantId, stocks: [{ warehouse: warehouseId, quantity }] },
+    "productVariantStocksUpdate",
+    { idempotent: true }
+  );
 }
+
+export const INVENTORY_SYNC_OPERATIONS: GraphqlOperations = {
+  shopify: [
+    GET_LOCATIONS_QUERY,
+    GET_INVENTORY_LEVELS_QUERY,
+    GET_REMAINING_INVENTORY_LEVELS_QUERY,
+    GET_INVENTORY_ITEM_QUERY,
+    GET_VARIANT_INVENTORY_ITEM_QUERY,
+    ADJUST_INVENTORY_MUTATION,
+  ],
+  nautical: [
+    GET_INVENTORY_BY_SKU_QUERY,
+    FIND_VARIANT_QUERY,
+    UPDATE_INVENTORY_MUTATION,
+    UPDATE_WAREHOUSE_STOCK_MUTATION,
+  ],
+};
@@ -0,0 +1,344 @@
+import type { ActionContext, Connection } from "@prismatic-io/spectral";
+import { logInfo } from "../utils/logging";
+import { isDryRun } from "../utils/dryRun";
+import {
+  createNauticalGraphqlClient,
+  type NauticalGraphqlClient,
+} from "../utils/nauticalGraphql";
+import { findOrderByExternalId } from "./orderSync";
+import { restockNauticalInventory } from "./inventorySync";
+import {
+  isLineRestocked,
+  recordRestockedLine,
+  type RefundRestockLedger,
+} from "../utils/refundRestocks";
+import type { GraphqlOperations } from "../utils/diagnostics";
+
+// Restock types that put the refunded items back on the shelf
+const RESTOCKING_TYPES = ["return", "cancel", "legacy_restock"];
+
+// Type for context.instanceState
+interface InstanceState {
+  refundRestocks?: RefundRestockLedger;
+}
+
+// Refund as delivered in the body of a Shopify refunds/create webhook
+export interface ShopifyWebhookRefund {
+  id: number;
+  order_id: number;
+  admin_graphql_api_id?: string;
+  created_at: string;
+  note?: string | null;
+  refund_line_items: {
+    id: number;
+    line_item_id: number;
+    quantity: number;
+    restock_type: string;
+    location_id: number | null;
+    subtotal: string;
+    total_tax: string;
+    line_item: {
+      sku: string | null;
+      variant_id: number | null;
+    };
+  }[];
+  transactions: {
+    amount: string;
+    currency: string;
+    kind: string;
+    status: string;
+    gateway: string;
+  }[];
+}
+
+// Order fields read from the body of a Shopify orders/cancelled webhook
+export interface ShopifyWebhookCancelledOrder {
+  id: number;
+  admin_graphql_api_id?: string;
+  name: string;
+  cancelled_at: string;
+  cancel_reason: string | null;
+}
+
+/**
+ * Handle a refunds/create webhook routed from the Shopify webhook flow by
+ * recording the refund on the Nautical order and restocking returned items.
+ * A retried delivery reuses the refund already recorded and skips lines
+ * that were already restocked.
+ * @param context The action context
+ * @param topic Shopify webhook topic
+ * @param data Parsed webhook body
+ * @returns The recorded refund and the result of each restock
+ */
+export async function handleRefundWebhook(
+  context: ActionContext,
+  topic: string,
+  data: ShopifyWebhookRefund
+) {
+  const nauticalClient = getNauticalClient(context);
+  const orderId = `gid://shopify/Order/${data.order_id}`;
+  const order = await findOrderByExternalId(nauticalClient, orderId);
+  if (!order) {
+    logInfo(context, `Skipped refund for order ${orderId} not in Nautical`, {
+      refundId: data.id,
+    });
+    return { applied: false };
+  }
+
+  const refund = {
+    externalId: data.admin_graphql_api_id ?? `gid://shopify/Refund/${data.id}`,
+    note: data.note ?? undefined,
+    lines: data.refund_line_items.map((line) => ({
+      sku: line.line_item.sku,
+      quantity: line.quantity,
+      amount: line.subtotal,
+      tax: line.total_tax,
+      restock: RESTOCKING_TYPES.includes(line.restock_type),
+    })),
+    // Amounts stay as Shopify's decimal strings so no precision is lost
+    payments: data.transactions
+      .filter(
+        (transaction) =>
+          transaction.kind === "refund" && transaction.status === "success"
+      )
+      .map((transaction) => ({
+        amount: transaction.amount,
+        currency: transaction.currency,
+        gateway: transaction.gateway,
+      })),
+  };
+
+  if (isDryRun(context.configVars)) {
+    return {
+      dryRun: true,
+      change: {
+        action: "update",
+        externalId: orderId,
+        nauticalId: order.id,
+        data: { refund },
+      },
+    };
+  }
+
+  const existing = await findNauticalRefund(
+    nauticalClient,
+    order.id,
+    refund.externalId
+  );
+  const recorded =
+    existing ?? (await createNauticalRefund(nauticalClient, order.id, refund));
+
+  // Items that Shopify put back on the shelf are restocked in Nautical too.
+  // Each line is recorded as soon as it is restocked, so a retry after a
+  // failure part way through only restocks the lines that are left.
+  const instanceState = context.instanceState as InstanceState;
+  const restocks = [];
+  for (const line of data.refund_line_items) {
+    if (
+      !RESTOCKING_TYPES.includes(line.restock_type) ||
+      !line.line_item.variant_id ||
+      !line.location_id
+    ) {
+      continue;
+    }
+    if (
+      isLineRestocked(
+        instanceState.refundRestocks ?? {},
+        refund.externalId,
+        line.id
+      )
+    ) {
+      restocks.push({ applied: false, alreadyRestocked: true });
+      continue;
+    }
+
+    restocks.push(
+      await restockNauticalInventory(context, topic, {
+        variantId: `gid://shopify/ProductVariant/${line.line_item.variant_id}`,
+        locationId: `gid://shopify/Location/${line.location_id}`,
+        quantity: line.quantity,
+      })
+    );
+    instanceState.refundRestocks = recordRestockedLine(
+      instanceState.refundRestocks ?? {},
+      refund.externalId,
+      line.id
+    );
+  }
+
+  logInfo(context, `Recorded refund on Nautical order ${order.id}`, {
+    topic,
+    refundId: refund.externalId,
+    alreadyRecorded: Boolean(existing),
+    lines: refund.lines.length,
+    restocked: restocks.filter((restock) => restock.applied).length,
+  });
+
+  return { applied: true, refund: recorded, restocks };
+}
+
+/**
+ * Handle an orders/cancelled webhook routed from the Shopify webhook flow by
+ * cancelling the Nautical order. Refunds and restocks made while cancelling
+ * arrive separately as refunds/create webhooks.
+ * @param context The action context
+ * @param topic Shopify webhook topic
+ * @param data Parsed webhook body
+ * @returns The cancelled Nautical order
+ */
+export async function handleOrderCancelledWebhook(
+  context: ActionContext,
+  topic: string,
+  data: ShopifyWebhookCancelledOrder
+) {
+  const nauticalClient = getNauticalClient(context);
+  const orderId = data.admin_graphql_api_id ?? `gid://shopify/Order/${data.id}`;
+  const order = await findOrderByExternalId(nauticalClient, orderId);
+  if (!order) {
+    logInfo(
+      context,
+      `Skipped cancellation of order ${orderId} not in Nautical`
+    );
+    return { applied: false };
+  }
+
+  if (isDryRun(context.configVars)) {
+    return {
+      dryRun: true,
+      change: {
+        action: "update",
+        externalId: orderId,
+        nauticalId: order.id,
+        data: { status: { from: order.status, to: "CANCELED" } },
+      },
+    };
+  }
+
+  const cancelled = await cancelNauticalOrder(
+    nauticalClient,
+    order.id,
+    data.cancel_reason
+  );
+
+  logInfo(context, `Cancelled Nautical order ${order.id}`, {
+    topic,
+    orderNumber: data.name,
+    reason: data.cancel_reason,
+  });
+
+  return { applied: true, order: cancelled };
+}
+
+function getNauticalClient(context: ActionContext) {
+  return createNauticalGraphqlClient(
+    context.configVars["Nautical Connection"] as Connection
+  );
+}
+
+const FIND_ORDER_REFUNDS_QUERY = `
+  query FindOrderRefunds($orderId: ID!) {
+    order(id: $orderId) {
+      refunds {
+        id
+        externalId
+      }
+    }
+  }
+`;
+
+async function findNauticalRefund(
+  client: NauticalGraphqlClient,
+  orderId: string,
+  externalId: string
+) {
+  const { order } = await client.query<{
+    order: { refunds: { id: string; externalId: string | null }[] } | null;
+  }>("Find Nautical Refunds", FIND_ORDER_REFUNDS_QUERY, { orderId });
+
+  const refund = order?.refunds.find(
+    (candidate) => candidate.externalId === externalId
+  );
+  return refund ? { id: refund.id } : null;
+}
+
+const CREATE_REFUND_MUTATION = `
+  mutation CreateRefund($orderId: ID!, $input: OrderRefundCreateInput!) {
+    orderRefundCreate(orderId: $orderId, input: $input) {
+      refund {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+async function createNauticalRefund(
+  client: NauticalGraphqlClient,
+  orderId: string,
+  refund: { externalId: string } & Record<string, unknown>
+) {
+  const { refund: created } = await client.mutate<{
+    refund: { id: string };
+  }>(
+    "Create Nautical Refund",
+    CREATE_REFUND_MUTATION,
+    { orderId, input: refund },
+    "orderRefundCreate",
+    {
+      findExisting: async () => {
+        const existing = await findNauticalRefund(
+          client,
+          orderId,
+          refund.externalId
+        );
+        return existing ? { refund: existing } : null;
+      },
+    }
+  );
+
+  return created;
+}
+
+const CANCEL_ORDER_MUTATION = `
+  mutation CancelOrder($id: ID!, $reason: String) {
+    orderCancel(id: $id, reason: $reason) {
+      order {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+async function cancelNauticalOrder(
+  client: NauticalGraphqlClient,
+  orderId: string,
+  reason: string | null
+) {
+  const { order } = await client.mutate<{
+    order: { id: string; status: string };
+  }>(
+    "Cancel Nautical Order",
+    CANCEL_ORDER_MUTATION,
+    { id: orderId, reason },
+    "orderCancel",
+    { idempotent: true }
+  );
+
+  return order;
+}
+
+export const ORDER_REFUNDS_OPERATIONS: GraphqlOperations = {
+  nautical: [
+    FIND_ORDER_REFUNDS_QUERY,
+    CREATE_REFUND_MUTATION,
+    CANCEL_ORDER_MUTATION,
+  ],
+};
@@ -1,31 +1,72 @@
 import {
   flow,
   type ActionContext,
-  type ConfigVarResultCollection,
-  type TriggerPayload,
+  type Connection,
 } from "@prismatic-io/spectral";
-import axios from "axios";
-import { withRetry, handleApiError } from "../utils/errorHandling";
 import { logInfo, logError } from "../utils/logging";
+import { isDryRun, type PlannedChange } from "../utils/dryRun";
+import { splitSellerOrders } from "../utils/sellerOrders";
+import {
+  currencyDecimals,
+  toMinorUnits,
+  fromMinorUnits,
+  type MoneyBag,
+} from "../utils/money";
+import {
+  calculateOrderTotals,
+  reconcileOrderTotals,
+  tipFromOrderTotal,
+  type ChargeAmounts,
+} from "../utils/orderTotals";
+import {
+  CUSTOMER_FIELDS,
+  findCustomerByExternalId,
+  findOrCreateNauticalCustomer,
+  normalizeShopifyWebhookCustomer,
+  type ShopifyCustomer,
+  type ShopifyWebhookCustomer,
+} from "../utils/customers";
+import {
+  createShopifyGraphqlClient,
+  type ShopifyGraphqlClient,
+} from "../utils/shopifyGraphql";
+import {
+  createNauticalGraphqlClient,
+  type NauticalGraphqlClient,
+} from "../utils/nauticalGraphql";
+import type { GraphqlOperations } from "../utils/diagnostics";
 
-interface ConfigVars {
-  shopify: {
-    apiUrl: string;
-    accessToken: string;
-  };
-  nautical: {
-    apiUrl: string;
-    apiKey: string;
-    tenantId: string;
+interface ShopifyTaxLine {
+  title: string;
+  rate: number | null;
+  priceSet: MoneyBag;
+}
+
+interface ShopifyDiscountAllocation {
+  allocatedAmountSet: MoneyBag;
+  discountApplication: {
+    code?: string;
+    title?: string;
   };
 }
 
 interface ShopifyOrder {
   id: string;
+  updatedAt?: string;
   name: string;
   email: string;
   phone: string;
-  totalPrice: string;
+  customer?: ShopifyCustomer | null;
+  taxesIncluded: boolean;
+  totalPriceSet: MoneyBag;
+  totalShippingPriceSet: MoneyBag;
+  totalTaxSet: MoneyBag;
+  // Webhook orders only carry the tip in the shop currency, so the
+  // presentment amount is missing when the two currencies differ
+  totalTipReceivedSet: Pick<MoneyBag, "shopMoney"> &
+    Partial<Pick<MoneyBag, "presentmentMoney">>;
+  // Null when the order has no duties
+  originalTotalDutiesSet: MoneyBag | null;
   displayFinancialStatus: string;
   lineItems: {
     edges: Array<{
@@ -33,7 +74,10 @@ interface ShopifyOrder {
         id: string;
         name: string;
         quantity: number;
-        originalTotalPrice: string;
+        originalUnitPriceSet: MoneyBag;
+        discountAllocations: ShopifyDiscountAllocation[];
+        taxLines: ShopifyTaxLine[];
+        vendor?: string | null;
         variant?: {
           id: string;
           sku: string;
@@ -43,6 +87,21 @@ interface ShopifyOrder {
         };
       };
     }>;
+    pageInfo?: {
+      hasNextPage: boolean;
+      endCursor: string | null;
+    };
+  };
+  shippingLines: {
+    edges: {
+      node: {
+        title: string;
+        code: string | null;
+        originalPriceSet: MoneyBag;
+        discountAllocations: ShopifyDiscountAllocation[];
+        taxLines: ShopifyTaxLine[];
+      };
+    }[];
   };
   shippingAddress?: {
     firstName: string;
@@ -68,23 +127,238 @@ interface ShopifyOrder {
   };
 }
 
-interface ShopifyConnection {
-  apiUrl: string;
-  accessToken: string;
+// Type for context.instanceState
+interface InstanceState {
+  // Start time of the last scheduled run
+  orderSyncWatermark?: string;
+  // Shopify GIDs of orders that failed to sync, retried on the next run
+  failedOrderIds?: string[];
 }
 
-interface NauticalConnection {
-  apiUrl: string;
-  apiKey: string;
-  tenantId: string;
+// How line items are routed to Nautical sellers
+interface SellerRouting {
+  // Nautical seller ID by Shopify vendor, filled in as vendors are looked up
+  sellersByVendor: Map<string, string>;
+  // Seller for line items with no vendor
+  defaultSeller?: string;
 }
 
-interface OrderTriggerPayload extends TriggerPayload {
-  results?: {
-    body?: {
-      data?: ShopifyOrder;
-    };
-  };
+// Shop and presentment amounts of a MoneyBag field
+const MONEY_BAG_FIELDS = `
+  shopMoney {
+    amount
+    currencyCode
+  }
+  presentmentMoney {
+    amount
+    currencyCode
+  }
+`;
+
+// Discount and tax fields shared by line items and shipping lines
+const CHARGE_FIELDS = `
+  discountAllocations {
+    allocatedAmountSet {
+      ${MONEY_BAG_FIELDS}
+    }
+    discountApplication {
+      ... on DiscountCodeApplication {
+        code
+      }
+      ... on ManualDiscountApplication {
+        title
+      }
+      ... on AutomaticDiscountApplication {
+        title
+      }
+      ... on ScriptDiscountApplication {
+        title
+      }
+    }
+  }
+  taxLines {
+    title
+    rate
+    priceSet {
+      ${MONEY_BAG_FIELDS}
+    }
+  }
+`;
+
+// Line item fields shared by the order query and the line item page query
+const LINE_ITEM_FIELDS = `
+  id
+  name
+  quantity
+  originalUnitPriceSet {
+    ${MONEY_BAG_FIELDS}
+  }
+  ${CHARGE_FIELDS}
+  vendor
+  variant {
+    id
+    sku
+    product {
+      id
+    }
+  }
+`;
+
+// Lookback used when the watermark is off or there has been no earlier run
+const DEFAULT_ORDER_LOOKBACK_HOURS = 24;
+
+// Page sizes that keep each order query under Shopify's cost limit. Orders
+// with more line items have the rest fetched separately.
+const ORDERS_PAGE_SIZE = 10;
+const ORDER_LINE_ITEMS_PAGE_SIZE = 20;
+const REMAINING_LINE_ITEMS_PAGE_SIZE = 50;
+
+// Order fields read wherever a Shopify order is synced
+const ORDER_FIELDS = `
+  id
+  name
+  email
+  phone
+  customer {
+    ${CUSTOMER_FIELDS}
+  }
+  taxesIncluded
+  totalPriceSet {
+    ${MONEY_BAG_FIELDS}
+  }
+  totalShippingPriceSet {
+    ${MONEY_BAG_FIELDS}
+  }
+  totalTaxSet {
+    ${MONEY_BAG_FIELDS}
+  }
+  totalTipReceivedSet {
+    ${MONEY_BAG_FIELDS}
+  }
+  originalTotalDutiesSet {
+    ${MONEY_BAG_FIELDS}
+  }
+  createdAt
+  updatedAt
+  displayFinancialStatus
+  displayFulfillmentStatus
+  lineItems(first: ${ORDER_LINE_ITEMS_PAGE_SIZE}) {
+    edges {
+      node {
+        ${LINE_ITEM_FIELDS}
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+  }
+  shippingLines(first: 20) {
+    edges {
+      node {
+        title
+        code
+        originalPriceSet {
+          ${MONEY_BAG_FIELDS}
+        }
+        ${CHARGE_FIELDS}
+      }
+    }
+  }
+  shippingAddress {
+    address1
+    address2
+    city
+    country
+    firstName
+    lastName
+    phone
+    province
+    zip
+  }
+  billingAddress {
+    address1
+    address2
+    city
+    country
+    firstName
+    lastName
+    phone
+    province
+    zip
+  }
+`;
+
+interface ShopifyWebhookAddress {
+  first_name: string;
+  last_name: string;
+  address1: string;
+  address2?: string | null;
+  city: string;
+  province: string;
+  zip: string;
+  country: string;
+  phone: string;
+}
+
+interface ShopifyWebhookMoneyBag {
+  shop_money: { amount: string; currency_code: string };
+  presentment_money: { amount: string; currency_code: string };
+}
+
+interface ShopifyWebhookTaxLine {
+  title: string;
+  rate: number | null;
+  price_set: ShopifyWebhookMoneyBag;
+}
+
+interface ShopifyWebhookDiscountAllocation {
+  amount_set: ShopifyWebhookMoneyBag;
+  discount_application_index: number;
+}
+
+// Order as delivered in the body of a Shopify orders/* webhook
+export interface ShopifyWebhookOrder {
+  id: number | string;
+  admin_graphql_api_id?: string;
+  name: string;
+  email: string;
+  phone: string;
+  customer?: ShopifyWebhookCustomer | null;
+  taxes_included: boolean;
+  total_price_set: ShopifyWebhookMoneyBag;
+  total_shipping_price_set: ShopifyWebhookMoneyBag;
+  total_tax_set: ShopifyWebhookMoneyBag;
+  total_tip_received?: string;
+  original_total_duties_set?: ShopifyWebhookMoneyBag | null;
+  financial_status: string;
+  discount_applications: {
+    type: string;
+    code?: string;
+    title?: string;
+  }[];
+  line_items: {
+    id: number | string;
+    admin_graphql_api_id?: string;
+    name: string;
+    quantity: number;
+    price_set: ShopifyWebhookMoneyBag;
+    discount_allocations: ShopifyWebhookDiscountAllocation[];
+    tax_lines: ShopifyWebhookTaxLine[];
+    sku: string;
+    vendor: string | null;
+    variant_id: number | null;
+    product_id: number | null;
+  }[];
+  shipping_lines: {
+    title: string;
+    code: string | null;
+    price_set: ShopifyWebhookMoneyBag;
+    discount_allocations: ShopifyWebhookDiscountAllocation[];
+    tax_lines: ShopifyWebhookTaxLine[];
+  }[];
+  shipping_address?: ShopifyWebhookAddress | null;
+  billing_address?: ShopifyWebhookAddress | null;
 }
 
 export const orderSyncFlow = flow({
@@ -92,42 +366,72 @@ export const orderSyncFlow = flow({
   stableKey: "order-sync",
   description: "Synchronize orders between Shopify and Nautical Commerce",
 
-  onExecution: async (context: ActionContext, payload: OrderTriggerPayload) => {
+  // Order webhooks are delivered through the Shopify webhook flow
+  onExecution: async (context) => {
     try {
-      const orderData = payload.results?.body?.data;
-      const shopifyConfig = context.configVars[
-        "Shopify Connection"
-      ] as unknown as ShopifyConnection;
-      const nauticalConfig = context.configVars[
-        "Nautical Connection"
-      ] as unknown as NauticalConnection;
-
-      if (orderData) {
-        // Handle webhook event for specific order
-        await processOrderWebhook(shopifyConfig, nauticalConfig, orderData);
-
-        logInfo(
-          context,
-          `Successfully processed order webhook: ${orderData.id}`,
-          {
-            orderId: orderData.id,
-            orderNumber: orderData.name,
-          }
-        );
-      } else {
-        // Schedule-based sync for all orders in a time period
-        const syncResult = await syncAllOrders(shopifyConfig, nauticalConfig);
+      const configVars = context.configVars as Record<string, unknown>;
+      const shopifyClient = createShopifyGraphqlClient(
+        configVars["Shopify Connection"] as Connection,
+        context
+      );
+      const nauticalClient = createNauticalGraphqlClient(
+        configVars["Nautical Connection"] as Connection
+      );
 
-        logInfo(context, `Synchronized ${syncResult.total} orders`, {
-          created: syncResult.created,
-          updated: syncResult.updated,
-          skipped: syncResult.skipped,
-        });
+      const dryRun = isDryRun(configVars);
+      const instanceState = context.instanceState as InstanceState;
+      const runStartedAt = new Date().toISOString();
+      const updatedSince = getOrderSyncStart(configVars, instanceState);
+
+      // Schedule-based sync for all orders updated in a time period, plus
+      // the orders that failed on earlier runs
+      const syncResult = await syncAllOrders(
+        context,
+        shopifyClient,
+        nauticalClient,
+        updatedSince,
+        instanceState.failedOrderIds ?? [],
+        getSellerRouting(configVars),
+        dryRun
+      );
+
+      // Failed orders are retried by ID next run, so the watermark can move on
+      if (!dryRun) {
+        instanceState.orderSyncWatermark = runStartedAt;
+        instanceState.failedOrderIds = syncResult.failedOrderIds;
+      }
+
+      logInfo(context, `Synchronized ${syncResult.total} orders`, {
+        created: syncResult.created,
+        updated: syncResult.updated,
+        failed: syncResult.failed,
+        retried: syncResult.retried,
+        failedOrderIds: syncResult.failedOrderIds,
+        updatedSince,
+        dryRun,
+      });
+
+      if (dryRun) {
+        return {
+          data: {
+            success: true,
+            dryRun,
+            ...syncResult,
+            message: `Dry run: would create ${syncResult.created} and update ${syncResult.updated} orders`,
+          },
+        };
       }
 
       return {
         data: {
           success: true,
+          total: syncResult.total,
+          created: syncResult.created,
+          updated: syncResult.updated,
+          failed: syncResult.failed,
+          retried: syncResult.retried,
+          failedOrderIds: syncResult.failedOrderIds,
+          updatedSince,
           message: "Order sync completed successfully",
         },
       };
@@ -140,188 +444,539 @@ export const orderSyncFlow = flow({
   },
 });
 
+/**
+ * Work out the updated_at lower bound for a scheduled run
+ * @param configVars Instance config vars
+ * @param instanceState Flow instance state holding the watermark
+ * @returns ISO timestamp of the earliest update to sync
+ */
+function getOrderSyncStart(
+  configVars: Record<string, unknown>,
+  instanceState: InstanceState
+): string {
+  if (
+    configVars["Order Sync Window"] !== "Fixed Lookback" &&
+    instanceState.orderSyncWatermark
+  ) {
+    return instanceState.orderSyncWatermark;
+  }
+
+  const hours = Number(
+    configVars["Order Lookback Hours"] ?? DEFAULT_ORDER_LOOKBACK_HOURS
+  );
+  if (!Number.isFinite(hours) || hours <= 0) {
+    throw new Error(`Order Lookback Hours must be a positive number: ${hours}`);
+  }
+
+  return new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Read the vendor to seller mapping config vars
+ * @param configVars Instance config vars
+ * @returns Seller routing seeded with the configured vendors
+ */
+function getSellerRouting(configVars: Record<string, unknown>): SellerRouting {
+  const mapping = (configVars["Vendor Seller Mapping"] ?? []) as {
+    key: string;
+    value: string;
+  }[];
+  const defaultSeller = configVars["Default Seller"] as string | undefined;
+
+  return {
+    sellersByVendor: new Map(
+      mapping.map(({ key, value }) => [key.trim().toLowerCase(), value.trim()])
+    ),
+    defaultSeller: defaultSeller?.trim() || undefined,
+  };
+}
+
+/**
+ * Handle an orders/create or orders/updated webhook routed from the Shopify
+ * webhook flow
+ * @param context The action context
+ * @param topic Shopify webhook topic
+ * @param data Parsed webhook body
+ * @returns The created or updated Nautical order
+ */
+export async function handleOrderWebhook(
+  context: ActionContext,
+  topic: string,
+  data: ShopifyWebhookOrder
+) {
+  const nauticalClient = createNauticalGraphqlClient(
+    context.configVars["Nautical Connection"] as Connection
+  );
+  const orderData = normalizeShopifyWebhookOrder(data);
+  const dryRun = isDryRun(context.configVars);
+  const nauticalOrder = await buildNauticalOrder(
+    nauticalClient,
+    orderData,
+    getSellerRouting(context.configVars),
+    dryRun
+  );
+
+  if (dryRun) {
+    const existingOrder = await findOrderByExternalId(
+      nauticalClient,
+      orderData.id
+    );
+    return {
+      dryRun: true,
+      change: planOrderChange(orderData, existingOrder, nauticalOrder),
+    };
+  }
+
+  const order = await processOrderWebhook(
+    nauticalClient,
+    orderData,
+    nauticalOrder
+  );
+
+  logInfo(context, `Successfully processed order webhook: ${orderData.id}`, {
+    topic,
+    orderId: orderData.id,
+    orderNumber: orderData.name,
+  });
+
+  return order;
+}
+
+// Convert a REST webhook order into the GraphQL shape used by the order sync
+function normalizeShopifyWebhookOrder(
+  order: ShopifyWebhookOrder
+): ShopifyOrder {
+  const toAddress = (address?: ShopifyWebhookAddress | null) =>
+    address
+      ? {
+          firstName: address.first_name,
+          lastName: address.last_name,
+          address1: address.address1,
+          address2: address.address2 ?? undefined,
+          city: address.city,
+          province: address.province,
+          zip: address.zip,
+          country: address.country,
+          phone: address.phone,
+        }
+      : undefined;
+  const toMoneyBag = (bag: ShopifyWebhookMoneyBag): MoneyBag => ({
+    shopMoney: {
+      amount: bag.shop_money.amount,
+      currencyCode: bag.shop_money.currency_code,
+    },
+    presentmentMoney: {
+      amount: bag.presentment_money.amount,
+      currencyCode: bag.presentment_money.currency_code,
+    },
+  });
+  const toCharge = (charge: {
+    discount_allocations: ShopifyWebhookDiscountAllocation[];
+    tax_lines: ShopifyWebhookTaxLine[];
+  }) => ({
+    discountAllocations: charge.discount_allocations.map((allocation) => {
+      const application =
+        order.discount_applications[allocation.discount_application_index];
+      return {
+        allocatedAmountSet: toMoneyBag(allocation.amount_set),
+        discountApplication:
+          application?.type === "discount_code"
+            ? { code: application.code }
+            : { title: application?.title },
+      };
+    }),
+    taxLines: charge.tax_lines.map((taxLine) => ({
+      title: taxLine.title,
+      rate: taxLine.rate,
+      priceSet: toMoneyBag(taxLine.price_set),
+    })),
+  });
+
+  // REST sends the tip as a single amount in the shop currency. It only
+  // stands for the presentment tip when the customer paid in that currency
+  // or left no tip; otherwise it is worked out from the presentment total.
+  const { shop_money: shopTotal, presentment_money: presentmentTotal } =
+    order.total_price_set;
+  const tip = order.total_tip_received ?? "0.00";
+  const tipMoney = (currencyCode: string) => ({ amount: tip, currencyCode });
+
+  return {
+    id: order.admin_graphql_api_id ?? `gid://shopify/Order/${order.id}`,
+    name: order.name,
+    email: order.email,
+    phone: order.phone,
+    customer: order.customer
+      ? normalizeShopifyWebhookCustomer(order.customer)
+      : null,
+    taxesIncluded: order.taxes_included,
+    totalPriceSet: toMoneyBag(order.total_price_set),
+    totalShippingPriceSet: toMoneyBag(order.total_shipping_price_set),
+    totalTaxSet: toMoneyBag(order.total_tax_set),
+    totalTipReceivedSet: {
+      shopMoney: tipMoney(shopTotal.currency_code),
+      presentmentMoney:
+        presentmentTotal.currency_code === shopTotal.currency_code ||
+        toMinorUnits(tip) === 0
+          ? tipMoney(presentmentTotal.currency_code)
+          : undefined,
+    },
+    originalTotalDutiesSet: order.original_total_duties_set
+      ? toMoneyBag(order.original_total_duties_set)
+      : null,
+    displayFinancialStatus: order.financial_status?.toUpperCase(),
+    lineItems: {
+      edges: order.line_items.map((item) => ({
+        node: {
+          id: item.admin_graphql_api_id ?? `gid://shopify/LineItem/${item.id}`,
+          name: item.name,
+          quantity: item.quantity,
+          originalUnitPriceSet: toMoneyBag(item.price_set),
+          ...toCharge(item),
+          vendor: item.vendor,
+          variant: item.variant_id
+            ? {
+                id: `gid://shopify/ProductVariant/${item.variant_id}`,
+                sku: item.sku,
+                product: { id: `gid://shopify/Product/${item.product_id}` },
+              }
+            : undefined,
+        },
+      })),
+    },
+    shippingLines: {
+      edges: order.shipping_lines.map((shippingLine) => ({
+        node: {
+          title: shippingLine.title,
+          code: shippingLine.code,
+          originalPriceSet: toMoneyBag(shippingLine.price_set),
+          ...toCharge(shippingLine),
+        },
+      })),
+    },
+    shippingAddress: toAddress(order.shipping_address),
+    billingAddress: toAddress(order.billing_address),
+  };
+}
+
 async function processOrderWebhook(
-  shopifyConn: ShopifyConnection,
-  nauticalConn: NauticalConnection,
-  orderData: ShopifyOrder
+  client: NauticalGraphqlClient,
+  orderData: ShopifyOrder,
+  nauticalOrder: NauticalOrderInput
 ) {
-  const existingOrder = await findOrderByExternalId(nauticalConn, orderData.id);
+  const existingOrder = await findOrderByExternalId(client, orderData.id);
 
   if (existingOrder) {
-    return await updateOrder(nauticalConn, existingOrder.id, orderData);
+    return await updateOrder(client, existingOrder.id, nauticalOrder);
   }
 
-  return await createOrder(nauticalConn, orderData);
+  return await createOrder(client, nauticalOrder);
+}
+
+// Order change reported by a dry run instead of being written to Nautical
+function planOrderChange(
+  order: ShopifyOrder,
+  existingOrder: { id: string; status: string } | null,
+  nauticalOrder: NauticalOrderInput
+): PlannedChange {
+  if (!existingOrder) {
+    return {
+      action: "create",
+      externalId: order.id,
+      data: nauticalOrder,
+    };
+  }
+
+  return {
+    action: "update",
+    externalId: order.id,
+    nauticalId: existingOrder.id,
+    data: {
+      status: {
+        from: existingOrder.status,
+        to: mapShopifyStatusToNautical(order.displayFinancialStatus),
+      },
+      order: nauticalOrder,
+    },
+  };
 }
 
 async function syncAllOrders(
-  shopifyConn: ShopifyConnection,
-  nauticalConn: NauticalConnection
+  context: ActionContext,
+  shopifyClient: ShopifyGraphqlClient,
+  nauticalClient: NauticalGraphqlClient,
+  updatedSince: string,
+  retryOrderIds: string[],
+  sellerRouting: SellerRouting,
+  dryRun = false
 ) {
-  const recentOrders = await getRecentShopifyOrders(shopifyConn);
   const results = {
-    total: recentOrders.length,
+    total: 0,
     created: 0,
     updated: 0,
-    skipped: 0,
+    failed: 0,
+    retried: 0,
+    failedOrderIds: [] as string[],
+    changes: [] as PlannedChange[],
   };
+  const seen = new Set<string>();
 
-  for (const order of recentOrders) {
-    try {
-      const existingOrder = await findOrderByExternalId(nauticalConn, order.id);
-
-      if (existingOrder) {
-        if (
-          existingOrder.status !==
-          mapShopifyStatusToNautical(order.displayFinancialStatus)
-        ) {
-          await updateOrder(nauticalConn, existingOrder.id, order);
-          results.updated++;
-        } else {
-          results.skipped++;
+  const syncOrders = async (orders: ShopifyOrder[]) => {
+    for (const order of orders) {
+      // An order retried from an earlier run may also have been updated since
+      if (seen.has(order.id)) {
+        continue;
+      }
+      seen.add(order.id);
+      results.total++;
+
+      try {
+        const outcome = await syncOrder(
+          nauticalClient,
+          order,
+          sellerRouting,
+          dryRun
+        );
+        if (outcome.change) {
+          results.changes.push(outcome.change);
         }
-      } else {
-        await createOrder(nauticalConn, order);
-        results.created++;
+        results[outcome.action]++;
+      } catch (error) {
+        logError(
+          context,
+          `Failed to process order ${order.id}`,
+          error instanceof Error ? error : new Error(String(error))
+        );
+        results.failed++;
+        results.failedOrderIds.push(order.id);
       }
-    } catch (error) {
-      console.error(`Failed to process order ${order.id}:`, error);
     }
+  };
+
+  for await (const orders of iterateShopifyOrdersById(
+    shopifyClient,
+    retryOrderIds
+  )) {
+    results.retried += orders.length;
+    await syncOrders(orders);
+  }
+
+  for await (const orders of iterateShopifyOrders(
+    shopifyClient,
+    updatedSince
+  )) {
+    await syncOrders(orders);
   }
 
   return results;
 }
 
-async function getRecentShopifyOrders(connection: ShopifyConnection) {
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  const createdAtMin = yesterday.toISOString();
+/**
+ * Create or update the Nautical order for one Shopify order. The order is
+ * always written, since any field may have changed since the last sync.
+ * @param nauticalClient Nautical GraphQL client
+ * @param order Shopify order
+ * @param sellerRouting Seller routing, updated with any vendors looked up
+ * @param dryRun Plan the change instead of making it
+ * @returns What was done with the order, and the planned change in a dry run
+ */
+async function syncOrder(
+  nauticalClient: NauticalGraphqlClient,
+  order: ShopifyOrder,
+  sellerRouting: SellerRouting,
+  dryRun: boolean
+): Promise<{
+  action: "created" | "updated";
+  change?: PlannedChange;
+}> {
+  const existingOrder = await findOrderByExternalId(nauticalClient, order.id);
+
+  const nauticalOrder = await buildNauticalOrder(
+    nauticalClient,
+    order,
+    sellerRouting,
+    dryRun
+  );
+  const action = existingOrder ? "updated" : "created";
+
+  if (dryRun) {
+    return {
+      action,
+      change: planOrderChange(order, existingOrder, nauticalOrder),
+    };
+  }
+
+  if (existingOrder) {
+    await updateOrder(nauticalClient, existingOrder.id, nauticalOrder);
+  } else {
+    await createOrder(nauticalClient, nauticalOrder);
+  }
+  return { action };
+}
+
+const GET_RECENT_ORDERS_QUERY = `
+  query GetRecentOrders($search: String!, $cursor: String) {
+    orders(
+      first: ${ORDERS_PAGE_SIZE}
+      after: $cursor
+      query: $search
+      sortKey: UPDATED_AT
+    ) {
+      edges {
+        node {
+          ${ORDER_FIELDS}
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+/**
+ * Page through every order updated since the given time, following cursors
+ * on both the orders and their line items
+ * @param client Shopify GraphQL client
+ * @param updatedSince Only orders updated at or after this time are returned
+ * @returns Async iterator over pages of orders with all their line items
+ */
+async function* iterateShopifyOrders(
+  client: ShopifyGraphqlClient,
+  updatedSince: string
+): AsyncGenerator<ShopifyOrder[]> {
+  // Passed as a variable so the timestamp is never spliced into the query
+  const search = `updated_at:>='${updatedSince}'`;
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const page: {
+      orders: {
+        edges: { node: ShopifyOrder }[];
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      };
+    } = await client.query(
+      "Get Recent Shopify Orders",
+      GET_RECENT_ORDERS_QUERY,
+      {
+        search,
+        cursor,
+      }
+    );
+    const orders = page.orders.edges.map((edge) => edge.node);
+
+    for (const order of orders) {
+      await fetchRemainingLineItems(client, order);
+    }
+
+    yield orders;
+
+    hasNextPage = page.orders.pageInfo.hasNextPage;
+    cursor = page.orders.pageInfo.endCursor;
+  }
+}
+
+const GET_ORDERS_BY_ID_QUERY = `
+  query GetOrdersById($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Order {
+        ${ORDER_FIELDS}
+      }
+    }
+  }
+`;
+
+/**
+ * Fetch Shopify orders by ID, a page at a time
+ * @param client Shopify GraphQL client
+ * @param orderIds Shopify order GIDs
+ * @returns Async iterator over pages of the orders that still exist
+ */
+async function* iterateShopifyOrdersById(
+  client: ShopifyGraphqlClient,
+  orderIds: string[]
+): AsyncGenerator<ShopifyOrder[]> {
+  for (let start = 0; start < orderIds.length; start += ORDERS_PAGE_SIZE) {
+    const { nodes } = await client.query<{ nodes: (ShopifyOrder | null)[] }>(
+      "Get Shopify Orders By ID",
+      GET_ORDERS_BY_ID_QUERY,
+      { ids: orderIds.slice(start, start + ORDERS_PAGE_SIZE) }
+    );
+    // Deleted orders come back as null
+    const orders = nodes.filter((order): order is ShopifyOrder => !!order);
+
+    for (const order of orders) {
+      await fetchRemainingLineItems(client, order);
+    }
+
+    yield orders;
+  }
+}
 
-  const query = `
-    query GetRecentOrders($createdAtMin: DateTime!) {
-      orders(first: 50, query: "created_at:>='${createdAtMin}'") {
+const GET_ORDER_LINE_ITEMS_QUERY = `
+  query GetOrderLineItems($id: ID!, $cursor: String) {
+    order(id: $id) {
+      lineItems(first: ${REMAINING_LINE_ITEMS_PAGE_SIZE}, after: $cursor) {
         edges {
           node {
-            id
-            name
-            email
-            phone
-            totalPrice
-            createdAt
-            displayFinancialStatus
-            displayFulfillmentStatus
-            lineItems(first: 50) {
-              edges {
-                node {
-                  id
-                  name
-                  quantity
-                  originalTotalPrice
-                  variant {
-                    id
-                    sku
-                    product {
-                      id
-                    }
-                  }
-                }
-              }
-            }
-            shippingAddress {
-              address1
-              address2
-              city
-              country
-              firstName
-              lastName
-              phone
-              province
-              zip
-            }
-            billingAddress {
-              address1
-              address2
-              city
-              country
-              firstName
-              lastName
-              phone
-              province
-              zip
-            }
+            ${LINE_ITEM_FIELDS}
           }
         }
         pageInfo {
           hasNextPage
+          endCursor
         }
       }
     }
-  `;
-
-  try {
-    const response = await withRetry(() =>
-      axios({
-        url: connection.apiUrl,
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Shopify-Access-Token": connection.accessToken,
-        },
-        data: {
-          query,
-          variables: { createdAtMin },
-        },
-      })
-    );
+  }
+`;
 
-    return response.data.data.orders.edges.map(
-      (edge: { node: ShopifyOrder }) => edge.node
+// Follow the line item cursor of an order until all line items are loaded
+async function fetchRemainingLineItems(
+  client: ShopifyGraphqlClient,
+  order: ShopifyOrder
+) {
+  let pageInfo = order.lineItems.pageInfo;
+
+  while (pageInfo?.hasNextPage) {
+    const page: { order: Pick<ShopifyOrder, "lineItems"> } = await client.query(
+      "Get Shopify Order Line Items",
+      GET_ORDER_LINE_ITEMS_QUERY,
+      {
+        id: order.id,
+        cursor: pageInfo.endCursor,
+      }
     );
-  } catch (error) {
-    throw handleApiError(error, "Get Recent Shopify Orders");
+
+    order.lineItems.edges.push(...page.order.lineItems.edges);
+    pageInfo = page.order.lineItems.pageInfo;
   }
 }
 
-async function findOrderByExternalId(
-  connection: NauticalConnection,
-  externalId: string
-) {
-  const query = `
-    query FindOrderByExternalId($externalId: String!) {
-      orders(filter: { externalId: { eq: $externalId } }, first: 1) {
-        nodes {
-          id
-          status
-          createdAt
-        }
+const FIND_ORDER_BY_EXTERNAL_ID_QUERY = `
+  query FindOrderByExternalId($externalId: String!) {
+    orders(filter: { externalId: { eq: $externalId } }, first: 1) {
+      nodes {
+        id
+        status
+        createdAt
       }
     }
-  `;
-
-  try {
-    const response = await axios({
-      url: connection.apiUrl,
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${connection.apiKey}`,
-        "x-nautical-tenant": connection.tenantId,
-      },
-      data: {
-        query,
-        variables: { externalId },
-      },
-    });
+  }
+`;
 
-    if (response.data.errors) {
-      throw new Error(response.data.errors[0].message);
-    }
+export async function findOrderByExternalId(
+  client: NauticalGraphqlClient,
+  externalId: string
+): Promise<{ id: string; status: string; createdAt: string } | null> {
+  const { orders } = await client.query<{
+    orders: { nodes: { id: string; status: string; createdAt: string }[] };
+  }>("Find Order By External ID", FIND_ORDER_BY_EXTERNAL_ID_QUERY, {
+    externalId,
+  });
 
-    const orders = response.data.data.orders.nodes;
-    return orders.length > 0 ? orders[0] : null;
-  } catch (error) {
-    throw handleApiError(error, "Find Order By External ID");
-  }
+  return orders.nodes.length > 0 ? orders.nodes[0] : null;
 }
 
 function mapShopifyStatusToNautical(shopifyStatus: string) {
@@ -338,121 +993,220 @@ function mapShopifyStatusToNautical(shopifyStatus: string) {
   return statusMap[shopifyStatus] || "PENDING";
 }
 
-async function createOrder(
-  connection: NauticalConnection,
-  orderData: ShopifyOrder
-) {
-  const nauticalOrder = transformShopifyOrderToNautical(orderData);
-
-  const mutation = `
-    mutation CreateOrder($input: OrderCreateInput!) {
-      orderCreate(input: $input) {
-        order {
-          id
-          status
-        }
-        userErrors {
-          field
-          message
-        }
+const CREATE_ORDER_MUTATION = `
+  mutation CreateOrder($input: OrderCreateInput!) {
+    orderCreate(input: $input) {
+      order {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
       }
     }
-  `;
-
-  try {
-    const response = await axios({
-      url: connection.apiUrl,
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${connection.apiKey}`,
-        "x-nautical-tenant": connection.tenantId,
-      },
-      data: {
-        query: mutation,
-        variables: {
-          input: nauticalOrder,
-        },
-      },
-    });
+  }
+`;
 
-    if (response.data.errors) {
-      throw new Error(response.data.errors[0].message);
+async function createOrder(
+  client: NauticalGraphqlClient,
+  nauticalOrder: NauticalOrderInput
+) {
+  const { order } = await client.mutate<{
+    order: { id: string; status: string };
+  }>(
+    "Create Order",
+    CREATE_ORDER_MUTATION,
+    { input: nauticalOrder },
+    "orderCreate",
+    {
+      findExisting: async () => {
+        const existing = await findOrderByExternalId(
+          client,
+          nauticalOrder.externalId
+        );
+        return existing ? { order: existing } : null;
+      },
     }
+  );
 
-    if (response.data.data.orderCreate.userErrors.length > 0) {
-      throw new Error(response.data.data.orderCreate.userErrors[0].message);
-    }
+  return order;
+}
 
-    return response.data.data.orderCreate.order;
-  } catch (error) {
-    throw handleApiError(error, "Create Order");
+const UPDATE_ORDER_MUTATION = `
+  mutation UpdateOrder($id: ID!, $input: OrderUpdateInput!) {
+    orderUpdate(id: $id, input: $input) {
+      order {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
   }
-}
+`;
 
 async function updateOrder(
-  connection: NauticalConnection,
+  client: NauticalGraphqlClient,
   id: string,
-  orderData: ShopifyOrder
+  nauticalOrder: NauticalOrderInput
 ) {
-  const nauticalOrder = transformShopifyOrderToNautical(orderData);
-
-  const mutation = `
-    mutation UpdateOrder($id: ID!, $input: OrderUpdateInput!) {
-      orderUpdate(id: $id, input: $input) {
-        order {
-          id
-          status
-        }
-        userErrors {
-          field
-          message
-        }
-      }
+  const { order } = await client.mutate<{
+    order: { id: string; status: string };
+  }>(
+    "Update Order",
+    UPDATE_ORDER_MUTATION,
+    { id, input: nauticalOrder },
+    "orderUpdate",
+    {
+      idempotent: true,
     }
-  `;
-
-  try {
-    const response = await axios({
-      url: connection.apiUrl,
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${connection.apiKey}`,
-        "x-nautical-tenant": connection.tenantId,
-      },
-      data: {
-        query: mutation,
-        variables: {
-          id,
-          input: nauticalOrder,
-        },
-      },
-    });
+  );
+
+  return order;
+}
+
+type NauticalOrderInput = ReturnType<typeof transformShopifyOrderToNautical>;
 
-    if (response.data.errors) {
-      throw new Error(response.data.errors[0].message);
+/**
+ * Resolve the customer and the seller of every line item, then build the
+ * Nautical order input
+ * @param client Nautical GraphQL client
+ * @param order Shopify order
+ * @param sellerRouting Seller routing, updated with any vendors looked up
+ * @param dryRun Only look the customer up instead of creating it
+ * @returns Nautical order input with per-seller sub-orders
+ */
+async function buildNauticalOrder(
+  client: NauticalGraphqlClient,
+  order: ShopifyOrder,
+  sellerRouting: SellerRouting,
+  dryRun: boolean
+) {
+  const sellers = new Map<string, string>();
+
+  for (const { node } of order.lineItems.edges) {
+    const vendor = node.vendor?.trim();
+    if (!vendor) {
+      if (!sellerRouting.defaultSeller) {
+        throw new Error(
+          `Line item ${node.name} on order ${order.name} has no vendor and no Default Seller is configured`
+        );
+      }
+      sellers.set(node.id, sellerRouting.defaultSeller);
+      continue;
     }
 
-    if (response.data.data.orderUpdate.userErrors.length > 0) {
-      throw new Error(response.data.data.orderUpdate.userErrors[0].message);
+    const key = vendor.toLowerCase();
+    let seller = sellerRouting.sellersByVendor.get(key);
+    if (!seller) {
+      seller = await findSellerIdByName(client, vendor);
+      if (!seller) {
+        throw new Error(
+          `No Nautical seller found for vendor "${vendor}" on order ${order.name}. Add it to the Vendor Seller Mapping.`
+        );
+      }
+      // Later orders from the same vendor skip the lookup
+      sellerRouting.sellersByVendor.set(key, seller);
     }
+    sellers.set(node.id, seller);
+  }
 
-    return response.data.data.orderUpdate.order;
-  } catch (error) {
-    throw handleApiError(error, "Update Order");
+  // The customer is created first so the order can link to it, even when
+  // the order webhook arrives before the customer webhook
+  let customer: { id: string } | null = null;
+  if (order.customer) {
+    customer = dryRun
+      ? await findCustomerByExternalId(client, order.customer.id)
+      : await findOrCreateNauticalCustomer(client, order.customer);
   }
+
+  return transformShopifyOrderToNautical(order, sellers, customer?.id);
 }
 
-function transformShopifyOrderToNautical(shopifyOrder: ShopifyOrder) {
-  const lineItems = shopifyOrder.lineItems.edges.map((edge) => {
-    const node = edge.node;
-    return {
-      productVariantId: node.variant?.id,
-      quantity: node.quantity,
-      price: Number.parseFloat(node.originalTotalPrice) / node.quantity,
-      sku: node.variant?.sku,
-    };
+const FIND_SELLER_BY_NAME_QUERY = `
+  query FindSellerByName($search: String!) {
+    sellers(filter: { search: $search }, first: 20) {
+      nodes {
+        id
+        companyName
+      }
+    }
+  }
+`;
+
+async function findSellerIdByName(
+  client: NauticalGraphqlClient,
+  name: string
+): Promise<string | undefined> {
+  const { sellers } = await client.query<{
+    sellers: { nodes: { id: string; companyName: string }[] };
+  }>("Find Seller By Name", FIND_SELLER_BY_NAME_QUERY, { search: name });
+
+  // Search is fuzzy, so only an exact name match counts
+  return sellers.nodes.find(
+    (seller) => seller.companyName.toLowerCase() === name.toLowerCase()
+  )?.id;
+}
+
+function transformShopifyOrderToNautical(
+  shopifyOrder: ShopifyOrder,
+  sellers: Map<string, string>,
+  customerId?: string
+) {
+  const shop = totalShopifyOrder(shopifyOrder, "shopMoney");
+  const presentment = totalShopifyOrder(shopifyOrder, "presentmentMoney");
+
+  // Nautical amounts are exact decimal strings in the shop's currency
+  const toDiscounts = (allocations: ShopifyDiscountAllocation[]) =>
+    allocations.map((allocation) => ({
+      code: allocation.discountApplication.code,
+      title: allocation.discountApplication.title,
+      amount: allocation.allocatedAmountSet.shopMoney.amount,
+    }));
+  const toTaxLines = (taxLines: ShopifyTaxLine[]) =>
+    taxLines.map((taxLine) => ({
+      title: taxLine.title,
+      rate: taxLine.rate,
+      amount: taxLine.priceSet.shopMoney.amount,
+    }));
+
+  const lineItems = shopifyOrder.lineItems.edges.map(({ node }, index) => ({
+    productVariantId: node.variant?.id,
+    quantity: node.quantity,
+    unitPrice: node.originalUnitPriceSet.shopMoney.amount,
+    ...shop.totals.lines[index],
+    discounts: toDiscounts(node.discountAllocations),
+    taxLines: toTaxLines(node.taxLines),
+    sku: node.variant?.sku,
+    seller: sellers.get(node.id) ?? "",
+  }));
+
+  const shippingLines = shopifyOrder.shippingLines.edges.map(
+    ({ node }, index) => ({
+      title: node.title,
+      code: node.code,
+      ...shop.totals.shippingLines[index],
+      discounts: toDiscounts(node.discountAllocations),
+      taxLines: toTaxLines(node.taxLines),
+    })
+  );
+
+  const sumShipping = (key: "total" | "tax") =>
+    fromMinorUnits(
+      shippingLines.reduce(
+        (sum, shippingLine) =>
+          sum + toMinorUnits(shippingLine[key], shop.decimals),
+        0
+      ),
+      shop.decimals
+    );
+  const sellerOrders = splitSellerOrders(lineItems, sumShipping("total"), {
+    shippingTax: sumShipping("tax"),
+    decimals: shop.decimals,
+    taxesIncluded: shopifyOrder.taxesIncluded,
   });
 
   const shippingAddress = shopifyOrder.shippingAddress
@@ -486,12 +1240,117 @@ function transformShopifyOrderToNautical(shopifyOrder: ShopifyOrder) {
   return {
     externalId: shopifyOrder.id,
     orderNumber: shopifyOrder.name,
-    customerEmail: shopifyOrder.email,
-    customerPhone: shopifyOrder.phone,
+    // Guest checkouts have no customer, so keep their contact details
+    ...(customerId
+      ? { customerId }
+      : {
+          customerEmail: shopifyOrder.email,
+          customerPhone: shopifyOrder.phone,
+        }),
     status: mapShopifyStatusToNautical(shopifyOrder.displayFinancialStatus),
-    totalPrice: Number.parseFloat(shopifyOrder.totalPrice),
+    currency: shop.currency,
+    taxesIncluded: shopifyOrder.taxesIncluded,
+    subtotal: shop.totals.subtotal,
+    discountTotal: shop.totals.discountTotal,
+    shippingTotal: shop.totals.shippingTotal,
+    taxTotal: shop.totals.taxTotal,
+    totalPrice: shop.totals.total,
+    // What the customer was charged, when they paid in another currency
+    presentment: {
+      currency: presentment.currency,
+      subtotal: presentment.totals.subtotal,
+      discountTotal: presentment.totals.discountTotal,
+      shippingTotal: presentment.totals.shippingTotal,
+      taxTotal: presentment.totals.taxTotal,
+      totalPrice: presentment.totals.total,
+    },
     lineItems,
+    shippingLines,
+    sellerOrders,
     shippingAddress,
     billingAddress,
   };
 }
+
+/**
+ * Total up a Shopify order in one of its currencies and check the result
+ * against what Shopify charged
+ * @param order Shopify order
+ * @param side Shop or presentment currency
+ * @returns Currency, its decimal places and the order totals
+ */
+function totalShopifyOrder(order: ShopifyOrder, side: keyof MoneyBag) {
+  const currency = order.totalPriceSet[side].currencyCode;
+  const decimals = currencyDecimals(currency);
+  const amount = (bag: MoneyBag) => bag[side].amount;
+  const toCharge = (
+    charge: {
+      discountAllocations: ShopifyDiscountAllocation[];
+      taxLines: ShopifyTaxLine[];
+    },
+    price: MoneyBag,
+    quantity?: number
+  ): ChargeAmounts => ({
+    price: amount(price),
+    quantity,
+    discounts: charge.discountAllocations.map((allocation) =>
+      amount(allocation.allocatedAmountSet)
+    ),
+    taxes: charge.taxLines.map((taxLine) => amount(taxLine.priceSet)),
+  });
+
+  const charges = {
+    lines: order.lineItems.edges.map(({ node }) =>
+      toCharge(node, node.originalUnitPriceSet, node.quantity)
+    ),
+    shippingLines: order.shippingLines.edges.map(({ node }) =>
+      toCharge(node, node.originalPriceSet)
+    ),
+    taxesIncluded: order.taxesIncluded,
+    duties: order.originalTotalDutiesSet
+      ? amount(order.originalTotalDutiesSet)
+      : undefined,
+  };
+  const tip = order.totalTipReceivedSet[side]?.amount;
+  const totals = calculateOrderTotals(
+    {
+      ...charges,
+      tip:
+        tip ??
+        tipFromOrderTotal(
+          calculateOrderTotals(charges, decimals),
+          amount(order.totalPriceSet),
+          decimals,
+          order.name
+        ),
+    },
+    decimals
+  );
+
+  reconcileOrderTotals(
+    totals,
+    {
+      shippingTotal: amount(order.totalShippingPriceSet),
+      taxTotal: amount(order.totalTaxSet),
+      total: amount(order.totalPriceSet),
+    },
+    decimals,
+    order.name
+  );
+
+  return { currency, decimals, totals };
+}
+
+export const ORDER_SYNC_OPERATIONS: GraphqlOperations = {
+  shopify: [
+    GET_RECENT_ORDERS_QUERY,
+    GET_ORDERS_BY_ID_QUERY,
+    GET_ORDER_LINE_ITEMS_QUERY,
+  ],
+  nautical: [
+    FIND_ORDER_BY_EXTERNAL_ID_QUERY,
+    CREATE_ORDER_MUTATION,
+    UPDATE_ORDER_MUTATION,
+    FIND_SELLER_BY_NAME_QUERY,
+  ],
+};
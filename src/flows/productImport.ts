@@ -1,10 +1,30 @@
 // src/flows/productImport.ts
-import { flow } from "@prismatic-io/spectral";
+import {
+  flow,
+  type ActionContext,
+  type Connection,
+} from "@prismatic-io/spectral";
 import { transformShopifyProductToNautical } from "../utils/dataTransformation";
-import { logInfo, logError, logDebug } from "../utils/logging";
-import { withRetry } from "../utils/errorHandling";
-import { fetchProducts } from "../components/shopify";
-import { createProduct } from "../components/nautical";
+import { logInfo, logError } from "../utils/logging";
+import {
+  upsertProduct,
+  planProductUpsert,
+  type NauticalProductInput,
+  type UpsertOutcome,
+} from "../utils/nauticalProducts";
+import { isDryRun, type PlannedChange } from "../utils/dryRun";
+import {
+  startBulkProductExport,
+  pollBulkOperation,
+  downloadBulkResult,
+  parseBulkProductsJsonl,
+} from "../utils/bulkOperations";
+import { createShopifyGraphqlClient } from "../utils/shopifyGraphql";
+import {
+  createNauticalGraphqlClient,
+  type NauticalGraphqlClient,
+} from "../utils/nauticalGraphql";
+import { fetchProducts, fetchProductVariants } from "../components/shopify";
 
 // Define more specific types
 interface ConnectionParams {
@@ -34,37 +54,67 @@ function hasConnections(obj: unknown): obj is ConnectionParams {
   );
 }
 
+// Progress of a paginated import, saved after every page so that a run
+// which stops part-way through can resume from the last completed page
+interface ProductImportProgress {
+  cursor: string | null;
+  counts: ImportCounts;
+  pagesProcessed: number;
+  updatedAt: string;
+}
+
+type ImportCounts = Record<UpsertOutcome, number>;
+
 // Type for context.instanceState
 interface InstanceState {
   attributeMapping?: {
     customMapping?: string;
   };
+  productImportProgress?: ProductImportProgress;
+  bulkOperationId?: string;
+}
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
 }
 
 // Define types for Shopify product data
+interface ShopifyVariantConnection {
+  edges: {
+    node: {
+      sku: string;
+      price: string;
+      inventoryQuantity: number;
+      selectedOptions: {
+        name: string;
+        value: string;
+      }[];
+    };
+  }[];
+  pageInfo?: PageInfo;
+}
+
 interface ShopifyProduct {
+  id: string;
   title: string;
   description: string;
-  variants: {
-    edges: Array<{
-      node: {
-        sku: string;
-        price: string;
-        inventoryQuantity: number;
-        selectedOptions: Array<{
-          name: string;
-          value: string;
-        }>;
-      };
-    }>;
-  };
+  variants: ShopifyVariantConnection;
   [key: string]: unknown;
 }
 
+interface ShopifyProductConnection {
+  edges: { node: ShopifyProduct }[];
+  pageInfo: PageInfo;
+}
+
+// Number of products upserted concurrently when importing a bulk result
+const BULK_IMPORT_BATCH_SIZE = 50;
+
 // Define types for attribute mappings
 interface AttributeMapping {
-  shopifyField: string;
-  nauticalField: string;
+  shopifyAttribute: string;
+  nauticalAttribute: string;
 }
 
 export const productImportFlow = flow({
@@ -82,65 +132,131 @@ export const productImportFlow = flow({
     }
 
     const shopifyConnection = params.connections.shopify;
-    const nauticalConnection = params.connections.nautical;
+    const nauticalClient = createNauticalGraphqlClient(
+      params.connections.nautical as unknown as Connection
+    );
+    const importMode = (context.configVars as Record<string, unknown>)[
+      "Product Import Mode"
+    ];
+    const dryRun = isDryRun(context.configVars);
 
     // Safe access to context properties with proper casting
     const instanceState = context.instanceState as unknown as InstanceState;
-    const attributeMappings = JSON.parse(
-      instanceState?.attributeMapping?.customMapping || "{}"
-    ) as AttributeMapping[];
+    const attributeMappings: AttributeMapping[] =
+      JSON.parse(instanceState?.attributeMapping?.customMapping || "{}")
+        .mappings || [];
+
+    // A dry run always previews the whole catalog and never saves progress
+    const previousProgress = dryRun
+      ? undefined
+      : instanceState.productImportProgress;
+    const changes: PlannedChange<NauticalProductInput>[] = [];
+    let cursor = previousProgress?.cursor ?? null;
+    const counts: ImportCounts = {
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      ...previousProgress?.counts,
+    };
+    let pagesProcessed = previousProgress?.pagesProcessed ?? 0;
+    let hasNextPage = true;
 
     try {
+      // Starting a bulk operation is a Shopify mutation, so dry runs page
+      if (importMode === "Bulk Operation" && !dryRun) {
+        return await runBulkImport(
+          context,
+          params.connections,
+          instanceState,
+          attributeMappings
+        );
+      }
+
       logInfo(context, "Starting product import from Shopify to Nautical", {
         shopifyDomain: shopifyConnection.fields.shopDomain,
+        resumedFromCursor: cursor,
+        dryRun,
       });
 
-      // Fetch products from Shopify using the Prismatic component
-      const { data: shopifyResponse } =
-        await fetchProducts.actions.fetch.perform(context, {
-          shopifyConnection,
-          limit: "50",
-          cursor: null,
+      while (hasNextPage) {
+        // Fetch a page of products from Shopify using the Prismatic component
+        const { data: productPage } =
+          (await fetchProducts.actions.fetch.perform(context, {
+            shopifyConnection,
+            limit: "50",
+            cursor,
+          })) as { data: ShopifyProductConnection };
+
+        const shopifyProducts = productPage.edges.map((edge) => edge.node);
+        for (const product of shopifyProducts) {
+          await fetchRemainingVariants(context, shopifyConnection, product);
+        }
+
+        logInfo(context, "Fetched products from Shopify", {
+          count: shopifyProducts.length,
+          page: pagesProcessed + 1,
         });
 
-      const shopifyProducts = (
-        shopifyResponse as {
-          data: { products: { edges: Array<{ node: ShopifyProduct }> } };
+        await upsertProductBatch(
+          nauticalClient,
+          shopifyProducts,
+          attributeMappings,
+          counts,
+          dryRun ? changes : null
+        );
+        pagesProcessed += 1;
+        cursor = productPage.pageInfo.endCursor;
+        hasNextPage = productPage.pageInfo.hasNextPage;
+
+        // Save progress so the next run can pick up after this page
+        if (!dryRun) {
+          instanceState.productImportProgress = {
+            cursor,
+            counts,
+            pagesProcessed,
+            updatedAt: new Date().toISOString(),
+          };
         }
-      ).data.products.edges.map((edge) => edge.node);
+      }
 
-      logInfo(context, "Fetched products from Shopify", {
-        count: shopifyProducts.length,
-      });
+      // The catalog is complete, so the next run starts from the beginning
+      if (!dryRun) {
+        delete instanceState.productImportProgress;
+      }
 
-      // Transform Shopify products to Nautical Commerce format using mapping
-      const nauticalProducts = transformProducts(
-        shopifyProducts,
-        attributeMappings
-      );
-      logInfo(context, "Transformed products to Nautical format", {
-        count: nauticalProducts.length,
-      });
+      const importedCount = counts.created + counts.updated + counts.unchanged;
+      if (dryRun) {
+        logInfo(context, "Dry run of product import completed", {
+          ...counts,
+          pagesProcessed,
+        });
 
-      // Import products into Nautical Commerce using the Prismatic component
-      const importResults = await Promise.all(
-        nauticalProducts.map(async (product) => {
-          const { data } = await createProduct.actions.create.perform(context, {
-            nauticalConnection,
-            ...product,
-          });
-          return data;
-        })
-      );
+        return {
+          data: {
+            dryRun,
+            ...counts,
+            pagesProcessed,
+            changes,
+            message: `Dry run: would create ${counts.created} and update ${counts.updated} products (${counts.unchanged} unchanged)`,
+          },
+        };
+      }
 
       logInfo(context, "Successfully imported products to Nautical Commerce", {
-        importedCount: importResults.length,
+        ...counts,
+        importedCount,
+        pagesProcessed,
       });
 
       return {
         data: {
-          importedCount: importResults.length,
-          message: `Successfully imported ${importResults.length} products`,
+          importedCount,
+          created: counts.created,
+          updated: counts.updated,
+          unchanged: counts.unchanged,
+          pagesProcessed,
+          resumed: Boolean(previousProgress),
+          message: `Successfully imported ${importedCount} products (${counts.created} created, ${counts.updated} updated, ${counts.unchanged} unchanged)`,
         },
       };
     } catch (error) {
@@ -153,35 +269,181 @@ export const productImportFlow = flow({
 });
 
 /**
- * Transform Shopify products to Nautical Commerce format
- * @param shopifyProducts Array of products from Shopify
- * @param mappings Attribute mappings between platforms
- * @returns Array of products in Nautical Commerce format
+ * Follow the variant cursor of a product until all of its variants are loaded
+ * @param context The action context
+ * @param shopifyConnection Connection to Shopify
+ * @param product Product whose first page of variants has already been fetched
  */
-function transformProducts(
-  shopifyProducts: ShopifyProduct[],
-  mappings: AttributeMapping[]
+async function fetchRemainingVariants(
+  context: ActionContext,
+  shopifyConnection: ConnectionParams["connections"]["shopify"],
+  product: ShopifyProduct
 ) {
-  return shopifyProducts.map((product) => {
-    // Apply attribute mappings
-    const mappedAttributes: Record<string, unknown> = {};
-    for (const mapping of mappings) {
-      const shopifyValue = product[mapping.shopifyField];
-      if (shopifyValue !== undefined) {
-        mappedAttributes[mapping.nauticalField] = shopifyValue;
+  let pageInfo = product.variants.pageInfo;
+
+  while (pageInfo?.hasNextPage) {
+    const { data: variantPage } =
+      (await fetchProductVariants.actions.fetch.perform(context, {
+        shopifyConnection,
+        productId: product.id,
+        cursor: pageInfo.endCursor,
+      })) as { data: ShopifyVariantConnection };
+
+    product.variants.edges.push(...variantPage.edges);
+    pageInfo = variantPage.pageInfo;
+  }
+}
+
+/**
+ * Update products that already exist in Nautical and create the rest
+ * @param nauticalClient Nautical GraphQL client
+ * @param shopifyProducts Products fetched from Shopify
+ * @param attributeMappings Attribute mappings between platforms
+ * @param counts Running created/updated/unchanged totals, updated in place
+ * @param dryRunChanges When given, planned creates and updates are added here
+ * instead of being written to Nautical
+ */
+async function upsertProductBatch(
+  nauticalClient: NauticalGraphqlClient,
+  shopifyProducts: { id: string }[],
+  attributeMappings: AttributeMapping[],
+  counts: ImportCounts,
+  dryRunChanges: PlannedChange<NauticalProductInput>[] | null = null
+) {
+  const outcomes = await Promise.all(
+    shopifyProducts.map(async (shopifyProduct) => {
+      const nauticalProduct = transformShopifyProductToNautical(
+        shopifyProduct,
+        attributeMappings
+      );
+
+      if (dryRunChanges) {
+        const { outcome, existingProduct } = await planProductUpsert(
+          nauticalClient,
+          nauticalProduct,
+          shopifyProduct.id
+        );
+        if (outcome !== "unchanged") {
+          dryRunChanges.push({
+            action: outcome === "created" ? "create" : "update",
+            externalId: shopifyProduct.id,
+            nauticalId: existingProduct?.id,
+            data: nauticalProduct,
+          });
+        }
+        return outcome;
       }
-    }
 
+      const { outcome } = await upsertProduct(
+        nauticalClient,
+        nauticalProduct,
+        shopifyProduct.id
+      );
+      return outcome;
+    })
+  );
+
+  for (const outcome of outcomes) {
+    counts[outcome] += 1;
+  }
+}
+
+/**
+ * Import the catalog through a Shopify bulk operation instead of paging the
+ * products query. A bulk operation that is still running when the poll times
+ * out is picked up again on the next run.
+ * @param context The action context
+ * @param connections Shopify and Nautical connections
+ * @param instanceState Flow instance state holding the running operation ID
+ * @param attributeMappings Attribute mappings between platforms
+ */
+async function runBulkImport(
+  context: ActionContext,
+  connections: ConnectionParams["connections"],
+  instanceState: InstanceState,
+  attributeMappings: AttributeMapping[]
+) {
+  const shopifyClient = createShopifyGraphqlClient(
+    connections.shopify as unknown as Connection,
+    context
+  );
+  const nauticalClient = createNauticalGraphqlClient(
+    connections.nautical as unknown as Connection
+  );
+
+  if (!instanceState.bulkOperationId) {
+    const started = await startBulkProductExport(shopifyClient);
+    instanceState.bulkOperationId = started.id;
+    logInfo(context, "Started Shopify bulk product export", {
+      bulkOperationId: started.id,
+    });
+  }
+
+  const operation = await pollBulkOperation(
+    shopifyClient,
+    instanceState.bulkOperationId
+  );
+
+  if (operation.status === "CREATED" || operation.status === "RUNNING") {
+    logInfo(context, "Bulk product export is still running", {
+      bulkOperationId: operation.id,
+      objectCount: operation.objectCount,
+    });
     return {
-      title: product.title,
-      description: product.description,
-      variants: product.variants.edges.map((edge) => ({
-        sku: edge.node.sku,
-        price: edge.node.price,
-        inventoryQuantity: edge.node.inventoryQuantity,
-        options: edge.node.selectedOptions,
-      })),
-      ...mappedAttributes,
+      data: {
+        status: operation.status,
+        bulkOperationId: operation.id,
+        message:
+          "Bulk product export is still running and will be resumed on the next run",
+      },
     };
+  }
+
+  delete instanceState.bulkOperationId;
+
+  if (operation.status !== "COMPLETED") {
+    throw new Error(
+      `Bulk product export ${operation.id} ended with status ${
+        operation.status
+      }${operation.errorCode ? ` (${operation.errorCode})` : ""}`
+    );
+  }
+
+  // Shopify returns no result file when the store has no products
+  const products = operation.url
+    ? parseBulkProductsJsonl(await downloadBulkResult(operation.url))
+    : [];
+
+  logInfo(context, "Downloaded bulk product export", {
+    bulkOperationId: operation.id,
+    count: products.length,
+  });
+
+  const counts: ImportCounts = { created: 0, updated: 0, unchanged: 0 };
+  for (let i = 0; i < products.length; i += BULK_IMPORT_BATCH_SIZE) {
+    await upsertProductBatch(
+      nauticalClient,
+      products.slice(i, i + BULK_IMPORT_BATCH_SIZE),
+      attributeMappings,
+      counts
+    );
+  }
+
+  const importedCount = counts.created + counts.updated + counts.unchanged;
+  logInfo(context, "Successfully imported products to Nautical Commerce", {
+    ...counts,
+    importedCount,
+    bulkOperationId: operation.id,
   });
+
+  return {
+    data: {
+      importedCount,
+      created: counts.created,
+      updated: counts.updated,
+      unchanged: counts.unchanged,
+      bulkOperationId: operation.id,
+      message: `Successfully imported ${importedCount} products (${counts.created} created, ${counts.updated} updated, ${counts.unchanged} unchanged)`,
+    },
+  };
 }
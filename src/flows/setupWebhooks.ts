@@ -1,12 +1,14 @@
-import { flow } from "@prismatic-io/spectral";
-import axios from "axios";
-import { withRetry, handleApiError } from "../utils/errorHandling";
-import { logInfo, logError } from "../utils/logging";
-
-interface ShopifyConnection {
-  apiUrl: string;
-  accessToken: string;
-}
+import {
+  flow,
+  type ActionContext,
+  type Connection,
+} from "@prismatic-io/spectral";
+import { logInfo, logError, logWarning } from "../utils/logging";
+import {
+  createShopifyGraphqlClient,
+  type ShopifyGraphqlClient,
+} from "../utils/shopifyGraphql";
+import type { GraphqlOperations } from "../utils/diagnostics";
 
 interface WebhookConfig {
   topic: string;
@@ -14,30 +16,138 @@ interface WebhookConfig {
   format: string;
 }
 
+interface WebhookSubscription {
+  id: string;
+  topic: string;
+  callbackUrl?: string;
+}
+
+// Shopify topics we subscribe to and the flow whose URL should receive them
+const WEBHOOK_TOPICS: { topic: string; flowName: string }[] = [
+  "PRODUCTS_CREATE",
+  "PRODUCTS_UPDATE",
+  "PRODUCTS_DELETE",
+  "ORDERS_CREATE",
+  "ORDERS_UPDATED",
+  "ORDERS_CANCELLED",
+  "REFUNDS_CREATE",
+  "INVENTORY_LEVELS_UPDATE",
+  "CUSTOMERS_CREATE",
+  "CUSTOMERS_UPDATE",
+  "APP_UNINSTALLED",
+].map((topic) => ({ topic, flowName: "Shopify Webhook" }));
+
+interface WebhookSubscriptionsResponse {
+  webhookSubscriptions: {
+    edges: {
+      node: {
+        id: string;
+        topic: string;
+        uri: string | null;
+      };
+    }[];
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  };
+}
+
+// Type for context.instanceState
+interface InstanceState {
+  webhookSubscriptionIds?: string[];
+  // Callback URLs this instance subscribed with. Other instances on the same
+  // shop subscribe with their own URLs, which are never touched.
+  webhookCallbackUrls?: string[];
+}
+
 export const setupWebhooksFlow = flow({
   name: "Setup Webhooks",
   stableKey: "setup-webhooks",
   description: "Setup webhooks for Shopify integration",
 
-  onExecution: async (context) => {
+  // Register subscriptions as soon as an instance is deployed
+  onInstanceDeploy: async (context) => {
     try {
-      const webhookUrl = context.webhookUrls[context.flow.name];
+      const result = await syncWebhookSubscriptions(
+        context,
+        createShopifyGraphqlClient(getShopifyConnection(context), context),
+        context.instanceState
+      );
 
-      if (!webhookUrl) {
-        throw new Error("Webhook URL not found for current flow");
+      logInfo(context, "Registered webhooks on instance deploy", {
+        created: result.created.length,
+        unchanged: result.unchanged.length,
+        removed: result.removed.length,
+      });
+
+      return {
+        instanceState: {
+          webhookSubscriptionIds: subscriptionIds(result),
+          webhookCallbackUrls: callbackUrls(context),
+        },
+      };
+    } catch (error) {
+      const formattedError =
+        error instanceof Error ? error : new Error(String(error));
+      logError(
+        context,
+        "Webhook registration on deploy failed",
+        formattedError
+      );
+      throw formattedError;
+    }
+  },
+
+  // Remove exactly the subscriptions this instance created or adopted
+  onInstanceDelete: async (context) => {
+    const instanceState = context.instanceState as InstanceState;
+    const ids = instanceState.webhookSubscriptionIds ?? [];
+    const client = createShopifyGraphqlClient(
+      getShopifyConnection(context),
+      context
+    );
+
+    for (const id of ids) {
+      try {
+        await deleteWebhook(client, id);
+        logInfo(context, "Removed webhook on instance delete", { id });
+      } catch (error) {
+        // The app may already be uninstalled; removing the instance must
+        // not be blocked by a subscription Shopify has already dropped
+        logWarning(context, "Could not remove webhook on instance delete", {
+          id,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
+    }
 
-      logInfo(context, "Setting up webhooks", {
-        webhookUrl,
-      });
+    return {
+      instanceState: {
+        webhookSubscriptionIds: [],
+        webhookCallbackUrls: [],
+      },
+    };
+  },
+
+  onExecution: async (context) => {
+    try {
+      const instanceState = context.instanceState as InstanceState;
+      const result = await syncWebhookSubscriptions(
+        context,
+        createShopifyGraphqlClient(getShopifyConnection(context), context),
+        instanceState
+      );
+      instanceState.webhookSubscriptionIds = subscriptionIds(result);
+      instanceState.webhookCallbackUrls = callbackUrls(context);
 
-      // Setup webhook logic here
-      // This would typically involve making API calls to Shopify to register the webhook
+      logInfo(context, "Webhooks setup completed", {
+        created: result.created.length,
+        unchanged: result.unchanged.length,
+        removed: result.removed.length,
+      });
 
       return {
         data: {
           message: "Webhooks setup completed successfully",
-          webhookUrl,
+          ...result,
         },
       };
     } catch (error) {
@@ -49,56 +159,220 @@ export const setupWebhooksFlow = flow({
   },
 });
 
-async function registerWebhook(
-  connection: ShopifyConnection,
-  webhook: WebhookConfig
+function getShopifyConnection(context: ActionContext) {
+  return (context.configVars as Record<string, unknown>)[
+    "Shopify Connection"
+  ] as Connection;
+}
+
+// IDs of every subscription that now belongs to this instance
+function subscriptionIds(
+  result: Awaited<ReturnType<typeof syncWebhookSubscriptions>>
 ) {
-  const mutation = `
-    mutation CreateWebhook($topic: WebhookSubscriptionTopic!, $webhookSubscription: WebhookSubscriptionInput!) {
-      webhookSubscriptionCreate(topic: $topic, webhookSubscription: $webhookSubscription) {
-        webhookSubscription {
+  return [...result.created, ...result.unchanged].map(({ id }) => id);
+}
+
+// Callback URLs this instance subscribes with
+function callbackUrls(context: ActionContext) {
+  return [
+    ...new Set(
+      WEBHOOK_TOPICS.map(({ flowName }) => context.webhookUrls[flowName])
+    ),
+  ];
+}
+
+/**
+ * Make the shop's webhook subscriptions match WEBHOOK_TOPICS: create missing
+ * subscriptions and delete ones this instance made that point at an old URL.
+ * Subscriptions of other instances installed on the same shop are left alone.
+ * @param context The action context, used for flow webhook URLs and logging
+ * @param client Shopify GraphQL client
+ * @param instanceState Subscriptions and callback URLs recorded by earlier runs
+ * @returns Topics created, left as they were, and subscriptions removed
+ */
+async function syncWebhookSubscriptions(
+  context: ActionContext,
+  client: ShopifyGraphqlClient,
+  instanceState: InstanceState
+) {
+  const desired = WEBHOOK_TOPICS.map(({ topic, flowName }) => {
+    const address = context.webhookUrls[flowName];
+    if (!address) {
+      throw new Error(`Webhook URL not found for flow "${flowName}"`);
+    }
+    return { topic, address, format: "JSON" };
+  });
+
+  const existing = await listWebhookSubscriptions(client);
+  const result = {
+    created: [] as WebhookSubscription[],
+    unchanged: [] as WebhookSubscription[],
+    removed: [] as WebhookSubscription[],
+  };
+
+  for (const webhook of desired) {
+    const match = existing.find(
+      (subscription) =>
+        subscription.topic === webhook.topic &&
+        subscription.callbackUrl === webhook.address
+    );
+
+    if (match) {
+      result.unchanged.push(match);
+      continue;
+    }
+
+    const created = await registerWebhook(client, webhook);
+    logInfo(context, `Registered ${webhook.topic} webhook`, {
+      id: created.id,
+      callbackUrl: webhook.address,
+    });
+    result.created.push({
+      id: created.id,
+      topic: webhook.topic,
+      callbackUrl: webhook.address,
+    });
+  }
+
+  // Subscriptions this instance made for our topics that no longer point at
+  // a current flow URL. Instances deployed before URLs were recorded only
+  // know their subscription IDs.
+  const ownIds = new Set(instanceState.webhookSubscriptionIds ?? []);
+  const ownUrls = new Set(instanceState.webhookCallbackUrls ?? []);
+  const stale = existing.filter(
+    (subscription) =>
+      WEBHOOK_TOPICS.some(({ topic }) => topic === subscription.topic) &&
+      (ownIds.has(subscription.id) ||
+        (subscription.callbackUrl !== undefined &&
+          ownUrls.has(subscription.callbackUrl))) &&
+      !desired.some(
+        (webhook) =>
+          webhook.topic === subscription.topic &&
+          webhook.address === subscription.callbackUrl
+      )
+  );
+
+  for (const subscription of stale) {
+    await deleteWebhook(client, subscription.id);
+    logInfo(context, `Removed stale ${subscription.topic} webhook`, {
+      id: subscription.id,
+      callbackUrl: subscription.callbackUrl,
+    });
+    result.removed.push(subscription);
+  }
+
+  return result;
+}
+
+const LIST_WEBHOOKS_QUERY = `
+  query ListWebhooks($cursor: String) {
+    webhookSubscriptions(first: 100, after: $cursor) {
+      edges {
+        node {
           id
+          topic
+          uri
         }
-        userErrors {
-          field
-          message
-        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
       }
     }
-  `;
-
-  try {
-    const response = await axios({
-      url: connection.apiUrl,
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Shopify-Access-Token": connection.accessToken,
-      },
-      data: {
-        query: mutation,
-        variables: {
-          topic: webhook.topic,
-          webhookSubscription: {
-            callbackUrl: webhook.address,
-            format: webhook.format,
-          },
-        },
-      },
-    });
+  }
+`;
+
+async function listWebhookSubscriptions(
+  client: ShopifyGraphqlClient
+): Promise<WebhookSubscription[]> {
+  const subscriptions: WebhookSubscription[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
 
-    if (response.data.errors) {
-      throw new Error(response.data.errors[0].message);
+  while (hasNextPage) {
+    const { webhookSubscriptions: page }: WebhookSubscriptionsResponse =
+      await client.query("List Webhooks", LIST_WEBHOOKS_QUERY, { cursor });
+
+    for (const { node } of page.edges) {
+      subscriptions.push({
+        id: node.id,
+        topic: node.topic,
+        callbackUrl: node.uri ?? undefined,
+      });
     }
 
-    if (response.data.data.webhookSubscriptionCreate.userErrors.length > 0) {
-      throw new Error(
-        response.data.data.webhookSubscriptionCreate.userErrors[0].message
-      );
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+  }
+
+  return subscriptions;
+}
+
+const CREATE_WEBHOOK_MUTATION = `
+  mutation CreateWebhook($topic: WebhookSubscriptionTopic!, $webhookSubscription: WebhookSubscriptionInput!) {
+    webhookSubscriptionCreate(topic: $topic, webhookSubscription: $webhookSubscription) {
+      webhookSubscription {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
     }
+  }
+`;
+
+async function registerWebhook(
+  client: ShopifyGraphqlClient,
+  webhook: WebhookConfig
+) {
+  const { webhookSubscription } = await client.mutate<{
+    webhookSubscription: { id: string };
+  }>(
+    `Register Webhook: ${webhook.topic}`,
+    CREATE_WEBHOOK_MUTATION,
+    {
+      topic: webhook.topic,
+      webhookSubscription: {
+        uri: webhook.address,
+        format: webhook.format,
+      },
+    },
+    "webhookSubscriptionCreate"
+  );
+
+  return webhookSubscription;
+}
 
-    return response.data.data.webhookSubscriptionCreate.webhookSubscription;
-  } catch (error) {
-    throw handleApiError(error, `Register Webhook: ${webhook.topic}`);
+const DELETE_WEBHOOK_MUTATION = `
+  mutation DeleteWebhook($id: ID!) {
+    webhookSubscriptionDelete(id: $id) {
+      deletedWebhookSubscriptionId
+      userErrors {
+        field
+        message
+      }
+    }
   }
+`;
+
+async function deleteWebhook(client: ShopifyGraphqlClient, id: string) {
+  const { deletedWebhookSubscriptionId } = await client.mutate<{
+    deletedWebhookSubscriptionId: string;
+  }>(
+    `Delete Webhook: ${id}`,
+    DELETE_WEBHOOK_MUTATION,
+    { id },
+    "webhookSubscriptionDelete"
+  );
+
+  return deletedWebhookSubscriptionId;
 }
+
+export const SETUP_WEBHOOKS_OPERATIONS: GraphqlOperations = {
+  shopify: [
+    LIST_WEBHOOKS_QUERY,
+    CREATE_WEBHOOK_MUTATION,
+    DELETE_WEBHOOK_MUTATION,
+  ],
+};
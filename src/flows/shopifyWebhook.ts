@@ -0,0 +1,166 @@
+import { flow, type ActionContext } from "@prismatic-io/spectral";
+import { logInfo, logError, logWarning } from "../utils/logging";
+import { getHeader, shopifyWebhookTrigger } from "../utils/webhookVerification";
+import {
+  describeWebhookResource,
+  checkWebhookDelivery,
+  recordWebhookDelivery,
+  type WebhookLedger,
+} from "../utils/webhookDeduplication";
+import { handleProductWebhook } from "./productUpdateWebhook";
+import { handleOrderWebhook } from "./orderSync";
+import { handleInventoryLevelWebhook } from "./inventorySync";
+import { handleCustomerWebhook } from "./customerSync";
+import {
+  handleRefundWebhook,
+  handleOrderCancelledWebhook,
+} from "./orderRefunds";
+
+// Handlers narrow the webhook body to the payload type of their topic
+type WebhookHandler = (
+  context: ActionContext,
+  topic: string,
+  data: never
+) => Promise<unknown>;
+
+// Type for context.instanceState
+interface InstanceState {
+  unhandledWebhookTopics?: Record<
+    string,
+    { count: number; lastSeenAt: string }
+  >;
+  webhookLedger?: WebhookLedger;
+}
+
+// Shopify topics this flow knows how to process
+const TOPIC_HANDLERS: Record<string, WebhookHandler> = {
+  "products/create": handleProductWebhook,
+  "products/update": handleProductWebhook,
+  "products/delete": handleProductWebhook,
+  "orders/create": handleOrderWebhook,
+  "orders/updated": handleOrderWebhook,
+  "orders/cancelled": handleOrderCancelledWebhook,
+  "refunds/create": handleRefundWebhook,
+  "inventory_levels/update": handleInventoryLevelWebhook,
+  "customers/create": handleCustomerWebhook,
+  "customers/update": handleCustomerWebhook,
+  "app/uninstalled": handleAppUninstalled,
+};
+
+export const shopifyWebhookFlow = flow({
+  name: "Shopify Webhook",
+  stableKey: "shopify-webhook",
+  description:
+    "Single entry point for Shopify webhooks, routed by the X-Shopify-Topic header",
+
+  // Unsigned or tampered requests are rejected before they are routed
+  onTrigger: shopifyWebhookTrigger,
+
+  onExecution: async (context, params) => {
+    const payload = params.onTrigger.results;
+    const topic = getHeader(payload.headers, "X-Shopify-Topic") ?? "";
+    const data = payload.body?.data;
+    const handler = TOPIC_HANDLERS[topic];
+
+    if (!handler) {
+      recordUnhandledTopic(context, topic);
+      return {
+        data: {
+          success: true,
+          handled: false,
+          topic,
+          message: `Acknowledged unsupported topic ${topic || "(none)"}`,
+        },
+      };
+    }
+
+    // Shopify delivers at least once and in no particular order. Concurrent
+    // executions do not see each other's ledger entries, see WebhookLedger.
+    const instanceState = context.instanceState as InstanceState;
+    const ledger = instanceState.webhookLedger ?? {
+      recentWebhookIds: [],
+      resourceVersions: {},
+    };
+    const delivery = {
+      webhookId: getHeader(payload.headers, "X-Shopify-Webhook-Id"),
+      ...describeWebhookResource(topic, data as Record<string, unknown>),
+    };
+    const dropReason = checkWebhookDelivery(ledger, delivery);
+
+    if (dropReason) {
+      logInfo(context, `Dropped ${dropReason} ${topic} webhook`, {
+        reason: dropReason,
+        ...delivery,
+        lastAppliedUpdatedAt: delivery.resourceKey
+          ? ledger.resourceVersions[delivery.resourceKey]
+          : undefined,
+      });
+      return {
+        data: {
+          success: true,
+          handled: false,
+          topic,
+          dropped: dropReason,
+        },
+      };
+    }
+
+    try {
+      const result = await handler(context, topic, data as never);
+
+      // Only successful deliveries are recorded, so Shopify retries still apply
+      instanceState.webhookLedger = recordWebhookDelivery(ledger, delivery);
+
+      return {
+        data: {
+          success: true,
+          handled: true,
+          topic,
+          result,
+        },
+      };
+    } catch (error) {
+      const formattedError =
+        error instanceof Error ? error : new Error(String(error));
+      logError(context, `Failed to process ${topic} webhook`, formattedError);
+      throw formattedError;
+    }
+  },
+});
+
+// Keep a count of topics we received but do not handle, so they can be
+// subscribed to (or unsubscribed from) deliberately
+function recordUnhandledTopic(context: ActionContext, topic: string) {
+  const instanceState = context.instanceState as InstanceState;
+  const key = topic || "(none)";
+  const previous = instanceState.unhandledWebhookTopics?.[key];
+
+  instanceState.unhandledWebhookTopics = {
+    ...instanceState.unhandledWebhookTopics,
+    [key]: {
+      count: (previous?.count ?? 0) + 1,
+      lastSeenAt: new Date().toISOString(),
+    },
+  };
+
+  logWarning(context, `Received webhook for unsupported topic: ${key}`, {
+    topic: key,
+    count: instanceState.unhandledWebhookTopics[key].count,
+  });
+}
+
+function handleAppUninstalled(
+  context: ActionContext,
+  topic: string,
+  data: { myshopify_domain?: string }
+) {
+  // Shopify revokes the access token and drops webhook subscriptions itself,
+  // so all we can do is record when it happened
+  context.crossFlowState.shopifyAppUninstalledAt = new Date().toISOString();
+
+  logWarning(context, "Shopify app was uninstalled from the store", {
+    topic,
+    shop: data?.myshopify_domain,
+  });
+  return Promise.resolve({ applied: true });
+}
@@ -4,7 +4,10 @@ import { productImportFlow } from "./flows/productImport";
 import { inventorySyncFlow } from "./flows/inventorySync";
 import { orderSyncFlow } from "./flows/orderSync";
 import { setupWebhooksFlow } from "./flows/setupWebhooks";
-import { productUpdateWebhookFlow } from "./flows/productUpdateWebhook";
+import { shopifyWebhookFlow } from "./flows/shopifyWebhook";
+import { fulfillmentSyncFlow } from "./flows/fulfillmentSync";
+import { customerSyncFlow } from "./flows/customerSync";
+import { diagnosticsFlow } from "./flows/diagnostics";
 import { configPages } from "./configPages";
 
 export { configPages } from "./configPages";
@@ -18,10 +21,10 @@ export default integration({
     inventorySyncFlow,
     orderSyncFlow,
     setupWebhooksFlow,
-    productUpdateWebhookFlow,
+    shopifyWebhookFlow,
+    fulfillmentSyncFlow,
+    customerSyncFlow,
+    diagnosticsFlow,
   ],
-  endpointType: "instance_specific",
-  triggerPreprocessFlowConfig: {
-    flowNameField: "headers.x-webhook-type",
-  },
+  configPages,
 });
@@ -1,31 +1,42 @@
-import type { Connection } from "@prismatic-io/spectral";
-
-export interface ShopifyConnection extends Connection {
-  apiUrl: string;
-  accessToken: string;
-}
-
-export interface NauticalConnection extends Connection {
-  apiUrl: string;
-  apiKey: string;
-  tenantId: string;
-}
+import type { Connection, ObjectFieldMap } from "@prismatic-io/spectral";
+import type { UnmappedLocationHandling } from "../utils/locationMapping";
 
 export interface ShopifyInventoryLevel {
   id: string;
   available: number;
+  updatedAt?: string;
+  location: {
+    id: string;
+    name: string;
+  };
+}
+
+// Inventory level as the Admin API returns it, with named quantities
+export interface ShopifyInventoryLevelNode {
+  id: string;
+  quantities: { name: string; quantity: number }[];
+  updatedAt?: string;
   location: {
     id: string;
     name: string;
   };
 }
 
+// REST body of an inventory_levels/update webhook
+export interface ShopifyInventoryLevelWebhook {
+  inventory_item_id: number;
+  location_id: number;
+  available: number | null;
+  updated_at: string;
+}
+
 export interface ShopifyVariant {
   id: string;
   sku: string;
   product: {
     id: string;
     title: string;
+    productType?: string;
   };
 }
 
@@ -35,6 +46,7 @@ export interface ShopifyInventoryItem {
   sku?: string;
   productId?: string;
   productTitle?: string;
+  productType?: string;
   levels: ShopifyInventoryLevel[];
 }
 
@@ -46,12 +58,20 @@ export interface ShopifyInventoryResponse {
           id: string;
           inventoryLevels: {
             edges: Array<{
-              node: ShopifyInventoryLevel;
+              node: ShopifyInventoryLevelNode;
             }>;
+            pageInfo: {
+              hasNextPage: boolean;
+              endCursor: string | null;
+            };
           };
           variant: ShopifyVariant;
         };
       }>;
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
     };
   };
 }
@@ -64,18 +84,45 @@ export interface NauticalInventoryItem {
   variantExternalId: string;
   sku: string;
   quantity: number;
+  updatedAt?: string;
+  // Stock held in each Nautical warehouse
+  stocks: { warehouseId: string; quantity: number }[];
 }
 
+export type InventorySourceOfTruth =
+  | "Shopify"
+  | "Nautical"
+  | "Last Writer Wins";
+
 export interface InventoryUpdate {
   sku: string;
   shopifyVariantId: string;
   nauticalVariantId: string;
+  shopifyInventoryItemId: string;
+  // Raw quantity across the Shopify locations being synced
   shopifyQuantity: number;
+  // Units of the SKU's safety stock held back in this warehouse, and the
+  // Shopify quantity minus them
+  safetyStock: number;
+  bufferedQuantity: number;
   nauticalQuantity: number;
   targetQuantity: number;
+  // Nautical warehouse being synced, if locations are mapped to warehouses
+  nauticalWarehouseId?: string;
+  // The system being corrected to match the source of truth
+  target: "shopify" | "nautical";
+  // Per-location adjustments to apply when Shopify is the target
+  shopifyChanges: { locationId: string; delta: number }[];
 }
 
 export interface ConfigVars {
-  shopifyConnection: ShopifyConnection;
-  nauticalConnection: NauticalConnection;
+  "Shopify Connection": Connection;
+  "Nautical Connection": Connection;
+  "Inventory Source of Truth"?: InventorySourceOfTruth;
+  "Inventory Location Mapping"?: ObjectFieldMap | string;
+  "Unmapped Location Handling"?: UnmappedLocationHandling;
+  "Default Warehouse"?: string;
+  "Global Safety Stock"?: number | string;
+  "Safety Stock by Product Type"?: { key: string; value: string }[];
+  "Safety Stock by SKU"?: { key: string; value: string }[];
 }
@@ -0,0 +1,59 @@
+/**
+ * Offline tests for reassembling bulk operation JSONL output into products.
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import { parseBulkProductsJsonl } from "./bulkOperations";
+
+const readFixture = (name: string) =>
+  readFileSync(join(__dirname, "__fixtures__", name), "utf8");
+
+describe("parseBulkProductsJsonl", () => {
+  test("attaches variants, images and metafields to their parent product", () => {
+    const products = parseBulkProductsJsonl(readFixture("bulkProducts.jsonl"));
+
+    expect(products.map((product) => product.id)).toEqual([
+      "gid://shopify/Product/1001",
+      "gid://shopify/Product/1002",
+    ]);
+
+    const [jacket, shoe] = products;
+    expect(jacket.title).toBe("Harbor Rain Jacket");
+    expect(jacket.variants.edges.map(({ node }) => node.sku)).toEqual([
+      "HRJ-S",
+      "HRJ-M",
+    ]);
+    expect(jacket.images.edges[0].node.url).toBe(
+      "https://cdn.shopify.com/s/files/harbor-front.jpg"
+    );
+    expect(jacket.metafields.edges[0].node).toMatchObject({
+      namespace: "custom",
+      key: "material",
+      value: "Recycled nylon",
+    });
+
+    expect(shoe.variants.edges).toHaveLength(1);
+    expect(shoe.images.edges).toHaveLength(0);
+    expect(shoe.metafields.edges).toHaveLength(0);
+  });
+
+  test("strips __parentId from child records", () => {
+    const [jacket] = parseBulkProductsJsonl(readFixture("bulkProducts.jsonl"));
+
+    expect(jacket.variants.edges[0].node).not.toHaveProperty("__parentId");
+    expect(jacket.variants.edges[0].node.selectedOptions).toEqual([
+      { name: "Size", value: "S" },
+    ]);
+  });
+
+  test("rejects child lines whose parent is missing", () => {
+    expect(() =>
+      parseBulkProductsJsonl(readFixture("bulkProductsOrphan.jsonl"))
+    ).toThrow(/unknown parent gid:\/\/shopify\/Product\/9999/);
+  });
+
+  test("returns no products for an empty result file", () => {
+    expect(parseBulkProductsJsonl("")).toEqual([]);
+  });
+});
@@ -0,0 +1,284 @@
+import axios from "axios";
+import { withRetry, handleApiError } from "./errorHandling";
+import type { ShopifyGraphqlClient } from "./shopifyGraphql";
+import type { GraphqlOperations } from "./diagnostics";
+
+export type BulkOperationStatus =
+  | "CREATED"
+  | "RUNNING"
+  | "COMPLETED"
+  | "CANCELING"
+  | "CANCELED"
+  | "FAILED"
+  | "EXPIRED";
+
+export interface BulkOperation {
+  id: string;
+  status: BulkOperationStatus;
+  errorCode?: string | null;
+  objectCount?: string;
+  url?: string | null;
+}
+
+interface BulkLine {
+  id: string;
+  __parentId?: string;
+  [key: string]: unknown;
+}
+
+export interface BulkProduct {
+  id: string;
+  variants: { edges: { node: BulkLine }[] };
+  images: { edges: { node: BulkLine }[] };
+  metafields: { edges: { node: BulkLine }[] };
+  [key: string]: unknown;
+}
+
+// Product query run as a bulk operation. Connections are flattened by Shopify
+// into separate JSONL lines that point back to their product via __parentId.
+export const BULK_PRODUCTS_QUERY = `
+  {
+    products {
+      edges {
+        node {
+          id
+          title
+          description
+          descriptionHtml
+          productType
+          vendor
+          status
+          options {
+            id
+            name
+            values
+          }
+          variants {
+            edges {
+              node {
+                id
+                sku
+                price
+                compareAtPrice
+                inventoryQuantity
+                selectedOptions {
+                  name
+                  value
+                }
+              }
+            }
+          }
+          images {
+            edges {
+              node {
+                id
+                url
+                altText
+              }
+            }
+          }
+          metafields {
+            edges {
+              node {
+                id
+                namespace
+                key
+                value
+                type
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const TERMINAL_STATUSES: BulkOperationStatus[] = [
+  "COMPLETED",
+  "CANCELED",
+  "FAILED",
+  "EXPIRED",
+];
+
+const BULK_PRODUCT_EXPORT_MUTATION = `
+  mutation BulkProductExport($query: String!) {
+    bulkOperationRunQuery(query: $query) {
+      bulkOperation {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+/**
+ * Start a bulk operation that exports every product in the store
+ * @param client Shopify GraphQL client
+ * @returns The newly created bulk operation
+ */
+export async function startBulkProductExport(
+  client: ShopifyGraphqlClient
+): Promise<BulkOperation> {
+  const { bulkOperation } = await client.mutate<{
+    bulkOperation: BulkOperation;
+  }>(
+    "Start Bulk Product Export",
+    BULK_PRODUCT_EXPORT_MUTATION,
+    { query: BULK_PRODUCTS_QUERY },
+    "bulkOperationRunQuery"
+  );
+
+  return bulkOperation;
+}
+
+const GET_BULK_OPERATION_QUERY = `
+  query GetBulkOperation($id: ID!) {
+    node(id: $id) {
+      ... on BulkOperation {
+        id
+        status
+        errorCode
+        objectCount
+        url
+      }
+    }
+  }
+`;
+
+/**
+ * Fetch the current state of a bulk operation
+ * @param client Shopify GraphQL client
+ * @param id GID of the bulk operation
+ * @returns The bulk operation
+ */
+export async function getBulkOperation(
+  client: ShopifyGraphqlClient,
+  id: string
+): Promise<BulkOperation> {
+  const { node } = await client.query<{ node: BulkOperation }>(
+    "Get Bulk Operation",
+    GET_BULK_OPERATION_QUERY,
+    { id }
+  );
+
+  return node;
+}
+
+/**
+ * Poll a bulk operation until it reaches a terminal status or the timeout passes
+ * @param client Shopify GraphQL client
+ * @param id GID of the bulk operation
+ * @param intervalMs Delay between polls
+ * @param timeoutMs Maximum time to wait before giving up
+ * @returns The last observed state of the bulk operation
+ */
+export async function pollBulkOperation(
+  client: ShopifyGraphqlClient,
+  id: string,
+  intervalMs = 5000,
+  timeoutMs = 600000
+): Promise<BulkOperation> {
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const operation = await getBulkOperation(client, id);
+    if (
+      TERMINAL_STATUSES.includes(operation.status) ||
+      Date.now() + intervalMs > deadline
+    ) {
+      return operation;
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+/**
+ * Download the JSONL result file of a completed bulk operation
+ * @param url Signed URL from the bulk operation
+ * @returns The raw JSONL text
+ */
+export async function downloadBulkResult(url: string): Promise<string> {
+  try {
+    const response = await withRetry(() =>
+      axios.get<string>(url, { responseType: "text" })
+    );
+    return response.data;
+  } catch (error) {
+    throw handleApiError(error, "Download Bulk Operation Result");
+  }
+}
+
+/**
+ * Rebuild products from the JSONL output of a bulk product export.
+ * Variants, images and metafields are attached to their product in the same
+ * edges/node shape the paginated products query returns.
+ * @param jsonl Raw JSONL text
+ * @returns Products with their child records
+ */
+export function parseBulkProductsJsonl(jsonl: string): BulkProduct[] {
+  const products = new Map<string, BulkProduct>();
+  const children: BulkLine[] = [];
+
+  for (const line of jsonl.split("\n")) {
+    if (!line.trim()) continue;
+
+    const record = JSON.parse(line) as BulkLine;
+    if (record.__parentId) {
+      children.push(record);
+    } else {
+      products.set(record.id, {
+        ...record,
+        variants: { edges: [] },
+        images: { edges: [] },
+        metafields: { edges: [] },
+      });
+    }
+  }
+
+  for (const { __parentId: parentId, ...child } of children) {
+    const product = products.get(parentId!);
+    if (!product) {
+      throw new Error(
+        `Bulk result line ${child.id} references unknown parent ${parentId}`
+      );
+    }
+
+    const connection = childConnection(child.id);
+    if (connection) {
+      product[connection].edges.push({ node: child });
+    }
+  }
+
+  return [...products.values()];
+}
+
+// Work out which product connection a child line belongs to from its GID type
+function childConnection(
+  id: string
+): "variants" | "images" | "metafields" | null {
+  const resourceType = id.split("/")[3];
+  switch (resourceType) {
+    case "ProductVariant":
+      return "variants";
+    case "ProductImage":
+    case "MediaImage":
+      return "images";
+    case "Metafield":
+      return "metafields";
+    default:
+      return null;
+  }
+}
+
+export const BULK_EXPORT_OPERATIONS: GraphqlOperations = {
+  shopify: [
+    BULK_PRODUCTS_QUERY,
+    BULK_PRODUCT_EXPORT_MUTATION,
+    GET_BULK_OPERATION_QUERY,
+  ],
+};
@@ -0,0 +1,184 @@
+/**
+ * Tests for mapping Shopify customers to Nautical customers.
+ */
+
+import type { NauticalGraphqlClient } from "./nauticalGraphql";
+import {
+  findOrCreateNauticalCustomer,
+  normalizeShopifyWebhookCustomer,
+  transformShopifyCustomerToNautical,
+  type ShopifyWebhookCustomer,
+} from "./customers";
+
+describe("customers", () => {
+  const webhookCustomer: ShopifyWebhookCustomer = {
+    id: 706405506930370000,
+    admin_graphql_api_id: "gid://shopify/Customer/706405506930370000",
+    first_name: "Bob",
+    last_name: "Biller",
+    email: "bob@biller.com",
+    phone: null,
+    note: "Prefers email",
+    tags: "VIP, wholesale,",
+    updated_at: "2026-10-01T12:00:00-04:00",
+    email_marketing_consent: {
+      state: "subscribed",
+      opt_in_level: "confirmed_opt_in",
+      consent_updated_at: "2026-09-30T08:00:00-04:00",
+    },
+    sms_marketing_consent: null,
+    addresses: [
+      {
+        id: 1,
+        first_name: "Bob",
+        last_name: "Biller",
+        company: null,
+        address1: "151 O'Connor Street",
+        address2: null,
+        city: "Ottawa",
+        province: "Ontario",
+        country: "Canada",
+        zip: "K2P 2L8",
+        phone: "555-555-5555",
+        default: false,
+      },
+      {
+        id: 2,
+        first_name: "Bob",
+        last_name: "Biller",
+        company: "Biller Inc",
+        address1: "1 Main Street",
+        address2: "Suite 4",
+        city: "Toronto",
+        province: "Ontario",
+        country: "Canada",
+        zip: "M5V 2T6",
+        phone: null,
+        default: true,
+      },
+    ],
+  };
+
+  test("maps a webhook customer with addresses, consent and tags", () => {
+    const customer = transformShopifyCustomerToNautical(
+      normalizeShopifyWebhookCustomer(webhookCustomer)
+    );
+
+    expect(customer).toMatchObject({
+      externalId: "gid://shopify/Customer/706405506930370000",
+      email: "bob@biller.com",
+      firstName: "Bob",
+      lastName: "Biller",
+      note: "Prefers email",
+      tags: ["VIP", "wholesale"],
+      emailMarketingConsent: {
+        state: "SUBSCRIBED",
+        optInLevel: "CONFIRMED_OPT_IN",
+        updatedAt: "2026-09-30T08:00:00-04:00",
+      },
+      smsMarketingConsent: null,
+    });
+    expect(
+      customer.addresses.map(({ externalId, postalCode, isDefault }) => ({
+        externalId,
+        postalCode,
+        isDefault,
+      }))
+    ).toEqual([
+      {
+        externalId: "gid://shopify/MailingAddress/1",
+        postalCode: "K2P 2L8",
+        isDefault: false,
+      },
+      {
+        externalId: "gid://shopify/MailingAddress/2",
+        postalCode: "M5V 2T6",
+        isDefault: true,
+      },
+    ]);
+  });
+
+  test("uses the default address of a customer embedded in an order", () => {
+    const customer = normalizeShopifyWebhookCustomer({
+      ...webhookCustomer,
+      addresses: undefined,
+      default_address: webhookCustomer.addresses?.[1],
+    });
+
+    expect(customer.addresses).toHaveLength(1);
+    expect(customer.defaultAddress).toEqual({
+      id: "gid://shopify/MailingAddress/2",
+    });
+  });
+
+  test("matches GraphQL address IDs to the default address", () => {
+    const customer = transformShopifyCustomerToNautical({
+      ...normalizeShopifyWebhookCustomer(webhookCustomer),
+      defaultAddress: {
+        id: "gid://shopify/MailingAddress/1?model_name=CustomerAddress",
+      },
+    });
+
+    expect(customer.addresses.map((address) => address.isDefault)).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  describe("findOrCreateNauticalCustomer", () => {
+    // Customer as embedded in an orders/create webhook
+    const orderCustomer = () =>
+      normalizeShopifyWebhookCustomer({
+        ...webhookCustomer,
+        addresses: undefined,
+        default_address: webhookCustomer.addresses?.[1],
+      });
+
+    const fakeClient = (existing: { id: string }[]) => ({
+      query: jest.fn(() => Promise.resolve({ customers: { nodes: existing } })),
+      mutate: jest.fn(() =>
+        Promise.resolve({ customer: { id: "Q3VzdG9tZXI6Mg==" } })
+      ),
+    });
+
+    test("links an order to an existing customer without updating it", async () => {
+      const client = fakeClient([{ id: "Q3VzdG9tZXI6MQ==" }]);
+
+      await expect(
+        findOrCreateNauticalCustomer(
+          client as unknown as NauticalGraphqlClient,
+          orderCustomer()
+        )
+      ).resolves.toEqual({ id: "Q3VzdG9tZXI6MQ==" });
+      expect(client.mutate).not.toHaveBeenCalled();
+    });
+
+    test("creates the order's customer when it is not synced yet", async () => {
+      const client = fakeClient([]);
+
+      await expect(
+        findOrCreateNauticalCustomer(
+          client as unknown as NauticalGraphqlClient,
+          orderCustomer()
+        )
+      ).resolves.toEqual({ id: "Q3VzdG9tZXI6Mg==" });
+      expect(client.mutate).toHaveBeenCalledWith(
+        "Create Nautical Customer",
+        expect.stringContaining("customerCreate"),
+        {
+          input: expect.objectContaining({
+            externalId: "gid://shopify/Customer/706405506930370000",
+            addresses: [
+              expect.objectContaining({
+                externalId: "gid://shopify/MailingAddress/2",
+                isDefault: true,
+              }),
+            ],
+          }),
+        },
+        "customerCreate",
+        { findExisting: expect.any(Function) }
+      );
+    });
+  });
+});
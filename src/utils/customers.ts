@@ -0,0 +1,321 @@
+import type { NauticalGraphqlClient } from "./nauticalGraphql";
+import type { GraphqlOperations } from "./diagnostics";
+
+interface ShopifyMarketingConsent {
+  marketingState: string;
+  marketingOptInLevel: string | null;
+  consentUpdatedAt: string | null;
+}
+
+interface ShopifyCustomerAddress {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  company: string | null;
+  address1: string | null;
+  address2: string | null;
+  city: string | null;
+  province: string | null;
+  country: string | null;
+  zip: string | null;
+  phone: string | null;
+}
+
+// Customer as returned by the Shopify GraphQL Admin API
+export interface ShopifyCustomer {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  phone: string | null;
+  note: string | null;
+  tags: string[];
+  updatedAt: string;
+  emailMarketingConsent: ShopifyMarketingConsent | null;
+  smsMarketingConsent: ShopifyMarketingConsent | null;
+  defaultAddress: { id: string } | null;
+  addresses: ShopifyCustomerAddress[];
+}
+
+interface ShopifyWebhookMarketingConsent {
+  state: string;
+  opt_in_level: string | null;
+  consent_updated_at: string | null;
+}
+
+interface ShopifyWebhookCustomerAddress {
+  id: number;
+  first_name: string | null;
+  last_name: string | null;
+  company: string | null;
+  address1: string | null;
+  address2: string | null;
+  city: string | null;
+  province: string | null;
+  country: string | null;
+  zip: string | null;
+  phone: string | null;
+  default: boolean;
+}
+
+// Customer as delivered in the body of a Shopify customers/* webhook, or
+// embedded in an orders/* webhook with only its default address
+export interface ShopifyWebhookCustomer {
+  id: number;
+  admin_graphql_api_id?: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  phone: string | null;
+  note: string | null;
+  tags: string;
+  updated_at: string;
+  email_marketing_consent?: ShopifyWebhookMarketingConsent | null;
+  sms_marketing_consent?: ShopifyWebhookMarketingConsent | null;
+  addresses?: ShopifyWebhookCustomerAddress[];
+  default_address?: ShopifyWebhookCustomerAddress | null;
+}
+
+// Customer fields read wherever a Shopify customer is synced
+export const CUSTOMER_FIELDS = `
+  id
+  firstName
+  lastName
+  email
+  phone
+  note
+  tags
+  updatedAt
+  emailMarketingConsent {
+    marketingState
+    marketingOptInLevel
+    consentUpdatedAt
+  }
+  smsMarketingConsent {
+    marketingState
+    marketingOptInLevel
+    consentUpdatedAt
+  }
+  defaultAddress {
+    id
+  }
+  addresses {
+    id
+    firstName
+    lastName
+    company
+    address1
+    address2
+    city
+    province
+    country
+    zip
+    phone
+  }
+`;
+
+/**
+ * Convert a REST webhook customer into the GraphQL shape used by the
+ * customer sync
+ * @param customer Parsed customers/create or customers/update webhook body
+ * @returns The customer in GraphQL shape
+ */
+export function normalizeShopifyWebhookCustomer(
+  customer: ShopifyWebhookCustomer
+): ShopifyCustomer {
+  const toConsent = (consent?: ShopifyWebhookMarketingConsent | null) =>
+    consent
+      ? {
+          marketingState: consent.state.toUpperCase(),
+          marketingOptInLevel: consent.opt_in_level?.toUpperCase() ?? null,
+          consentUpdatedAt: consent.consent_updated_at,
+        }
+      : null;
+  const webhookAddresses =
+    customer.addresses ??
+    (customer.default_address ? [customer.default_address] : []);
+  const addresses = webhookAddresses.map((address) => ({
+    id: `gid://shopify/MailingAddress/${address.id}`,
+    firstName: address.first_name,
+    lastName: address.last_name,
+    company: address.company,
+    address1: address.address1,
+    address2: address.address2,
+    city: address.city,
+    province: address.province,
+    country: address.country,
+    zip: address.zip,
+    phone: address.phone,
+  }));
+  const defaultAddress = webhookAddresses.find((address) => address.default);
+
+  return {
+    id:
+      customer.admin_graphql_api_id ?? `gid://shopify/Customer/${customer.id}`,
+    firstName: customer.first_name,
+    lastName: customer.last_name,
+    email: customer.email,
+    phone: customer.phone,
+    note: customer.note,
+    // REST sends tags as one comma-separated string
+    tags: customer.tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+    updatedAt: customer.updated_at,
+    emailMarketingConsent: toConsent(customer.email_marketing_consent),
+    smsMarketingConsent: toConsent(customer.sms_marketing_consent),
+    defaultAddress: defaultAddress
+      ? { id: `gid://shopify/MailingAddress/${defaultAddress.id}` }
+      : null,
+    addresses,
+  };
+}
+
+/**
+ * Build the Nautical customer input for a Shopify customer
+ * @param customer Shopify customer
+ * @returns Customer input keyed by the Shopify customer GID
+ */
+export function transformShopifyCustomerToNautical(customer: ShopifyCustomer) {
+  const toConsent = (consent: ShopifyMarketingConsent | null) =>
+    consent
+      ? {
+          state: consent.marketingState,
+          optInLevel: consent.marketingOptInLevel,
+          updatedAt: consent.consentUpdatedAt,
+        }
+      : null;
+  // GraphQL address IDs carry a ?model_name= suffix that webhooks leave off
+  const toAddressId = (id?: string) => id?.split("?")[0];
+
+  return {
+    externalId: customer.id,
+    email: customer.email,
+    firstName: customer.firstName,
+    lastName: customer.lastName,
+    phone: customer.phone,
+    note: customer.note,
+    tags: customer.tags,
+    emailMarketingConsent: toConsent(customer.emailMarketingConsent),
+    smsMarketingConsent: toConsent(customer.smsMarketingConsent),
+    addresses: customer.addresses.map((address) => ({
+      externalId: toAddressId(address.id),
+      firstName: address.firstName,
+      lastName: address.lastName,
+      company: address.company,
+      address1: address.address1,
+      address2: address.address2,
+      city: address.city,
+      province: address.province,
+      postalCode: address.zip,
+      country: address.country,
+      phone: address.phone,
+      isDefault:
+        toAddressId(address.id) === toAddressId(customer.defaultAddress?.id),
+    })),
+  };
+}
+
+export type NauticalCustomerInput = ReturnType<
+  typeof transformShopifyCustomerToNautical
+>;
+
+const FIND_CUSTOMER_BY_EXTERNAL_ID_QUERY = `
+  query FindCustomerByExternalId($externalId: String!) {
+    customers(filter: { externalId: { eq: $externalId } }, first: 1) {
+      nodes {
+        id
+      }
+    }
+  }
+`;
+
+/**
+ * Find the Nautical customer synced from a Shopify customer
+ * @param client Nautical GraphQL client
+ * @param externalId Shopify customer GID
+ * @returns The Nautical customer, or null if it has not been synced
+ */
+export async function findCustomerByExternalId(
+  client: NauticalGraphqlClient,
+  externalId: string
+): Promise<{ id: string } | null> {
+  const { customers } = await client.query<{
+    customers: { nodes: { id: string }[] };
+  }>("Find Customer By External ID", FIND_CUSTOMER_BY_EXTERNAL_ID_QUERY, {
+    externalId,
+  });
+
+  return customers.nodes.length > 0 ? customers.nodes[0] : null;
+}
+
+const CREATE_CUSTOMER_MUTATION = `
+  mutation CreateCustomer($input: CustomerInput!) {
+    customerCreate(input: $input) {
+      customer {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+/**
+ * Create a Nautical customer
+ * @param client Nautical GraphQL client
+ * @param input Customer input built from the Shopify customer
+ * @returns The created Nautical customer
+ */
+export async function createNauticalCustomer(
+  client: NauticalGraphqlClient,
+  input: NauticalCustomerInput
+): Promise<{ id: string }> {
+  const { customer } = await client.mutate<{ customer: { id: string } }>(
+    "Create Nautical Customer",
+    CREATE_CUSTOMER_MUTATION,
+    { input },
+    "customerCreate",
+    {
+      findExisting: async () => {
+        const existing = await findCustomerByExternalId(
+          client,
+          input.externalId
+        );
+        return existing ? { customer: existing } : null;
+      },
+    }
+  );
+
+  return customer;
+}
+
+/**
+ * Link an order to its Nautical customer, creating the customer if it has
+ * not been synced yet. An existing customer is left as it is: a customer
+ * embedded in an order webhook only carries its default address, so
+ * updating from it would drop the customer's other addresses. The customer
+ * webhooks and the Customer Sync flow keep existing customers up to date.
+ * @param client Nautical GraphQL client
+ * @param customer Shopify customer from the order
+ * @returns The Nautical customer
+ */
+export async function findOrCreateNauticalCustomer(
+  client: NauticalGraphqlClient,
+  customer: ShopifyCustomer
+): Promise<{ id: string }> {
+  return (
+    (await findCustomerByExternalId(client, customer.id)) ??
+    (await createNauticalCustomer(
+      client,
+      transformShopifyCustomerToNautical(customer)
+    ))
+  );
+}
+
+export const CUSTOMER_OPERATIONS: GraphqlOperations = {
+  nautical: [FIND_CUSTOMER_BY_EXTERNAL_ID_QUERY, CREATE_CUSTOMER_MUTATION],
+};
@@ -15,6 +15,24 @@ export function transformShopifyProductToNautical(
     attributes: extractAttributes(shopifyProduct, attributeMappings),
     externalId: shopifyProduct.id,
     externalSource: "shopify",
+    // Only present when the product came from a bulk operation export
+    images: shopifyProduct.images?.edges.map(
+      ({ node }: { node: { id: string; url: string; altText?: string } }) => ({
+        url: node.url,
+        alt: node.altText,
+        externalId: node.id,
+      })
+    ),
+    metadata: shopifyProduct.metafields?.edges.map(
+      ({
+        node,
+      }: {
+        node: { namespace: string; key: string; value: string };
+      }) => ({
+        key: `${node.namespace}.${node.key}`,
+        value: node.value,
+      })
+    ),
   };
 
   // Extract variants
@@ -82,3 +100,81 @@ function mapShopifyStatusToNautical(shopifyStatus) {
   };
   return statusMap[shopifyStatus] || "DRAFT";
 }
+
+// Product as delivered in the body of a Shopify products/* webhook
+export interface ShopifyWebhookProduct {
+  id: number | string;
+  admin_graphql_api_id?: string;
+  title?: string;
+  body_html?: string | null;
+  product_type?: string;
+  vendor?: string;
+  status?: string;
+  options?: { name: string; values: string[] }[];
+  variants?: {
+    id: number | string;
+    admin_graphql_api_id?: string;
+    sku: string;
+    price: string;
+    compare_at_price?: string | null;
+    inventory_quantity?: number;
+    option1?: string | null;
+    option2?: string | null;
+    option3?: string | null;
+  }[];
+  images?: {
+    id: number;
+    admin_graphql_api_id?: string;
+    src: string;
+    alt?: string | null;
+  }[];
+}
+
+// Convert a REST webhook product into the GraphQL shape used by the rest of
+// the product pipeline, so webhooks and imports share one transform
+export function normalizeShopifyWebhookProduct(product: ShopifyWebhookProduct) {
+  const options = product.options ?? [];
+
+  return {
+    id: product.admin_graphql_api_id ?? `gid://shopify/Product/${product.id}`,
+    title: product.title,
+    description: product.body_html ?? "",
+    descriptionHtml: product.body_html ?? "",
+    productType: product.product_type,
+    vendor: product.vendor,
+    status: product.status?.toUpperCase(),
+    options,
+    variants: {
+      edges: (product.variants ?? []).map((variant) => ({
+        node: {
+          id:
+            variant.admin_graphql_api_id ??
+            `gid://shopify/ProductVariant/${variant.id}`,
+          sku: variant.sku,
+          price: variant.price,
+          compareAtPrice: variant.compare_at_price ?? null,
+          inventoryQuantity: variant.inventory_quantity ?? 0,
+          selectedOptions: [variant.option1, variant.option2, variant.option3]
+            .map((value, index) => ({ name: options[index]?.name, value }))
+            .filter(
+              (option): option is { name: string; value: string } =>
+                Boolean(option.name) && option.value != null
+            ),
+        },
+      })),
+    },
+    images: product.images
+      ? {
+          edges: product.images.map((image) => ({
+            node: {
+              id:
+                image.admin_graphql_api_id ??
+                `gid://shopify/ProductImage/${image.id}`,
+              url: image.src,
+              altText: image.alt ?? undefined,
+            },
+          })),
+        }
+      : undefined,
+  };
+}
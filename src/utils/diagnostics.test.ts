@@ -0,0 +1,312 @@
+/**
+ * Tests for the connection diagnostics report.
+ */
+
+import { SHOPIFY_FLOW_SCOPES, SHOPIFY_OAUTH_SCOPES } from "./shopifyScopes";
+import { findMissingScopes, runDiagnostics } from "./diagnostics";
+
+// Fake GraphQL client that answers each operation from a map, calling
+// functions with the query
+function fakeClient(answers: Record<string, unknown>) {
+  return {
+    query: jest.fn((operation: string, query: string) => {
+      const answer = answers[operation];
+      return Promise.resolve(
+        typeof answer === "function" ? answer(query) : answer
+      );
+    }),
+    mutate: jest.fn(),
+  };
+}
+
+// Field types of each type in a small schema
+type FakeSchema = Record<string, Record<string, string>>;
+
+const shopifySchema: FakeSchema = {
+  QueryRoot: { shop: "Shop", product: "Product" },
+  Mutation: {},
+  Shop: { name: "String" },
+  Product: { id: "ID", title: "String", variants: "ProductVariantConnection" },
+  ProductVariantConnection: { nodes: "ProductVariant" },
+  ProductVariant: { id: "ID", sku: "String" },
+  ID: {},
+  String: {},
+};
+
+const nauticalSchema: FakeSchema = {
+  Query: { order: "Order" },
+  Mutation: { orderRefundCreate: "OrderRefundCreate" },
+  Order: { id: "ID", refunds: "OrderRefund" },
+  OrderRefund: { id: "ID", externalId: "String" },
+  OrderRefundCreate: { refund: "OrderRefund", errors: "Error" },
+  Error: { field: "String", message: "String" },
+  OrderRefundCreateInput: {},
+  ID: {},
+  String: {},
+};
+
+const shopifyOperations = [
+  `query GetProduct($id: ID!) {
+    product(id: $id) { id title variants(first: 10) { nodes { id sku } } }
+  }`,
+];
+
+const nauticalOperations = [
+  `query FindOrderRefunds($orderId: ID!) {
+    order(id: $orderId) { id refunds { id externalId } }
+  }`,
+  `mutation CreateRefund($orderId: ID!, $input: OrderRefundCreateInput!) {
+    orderRefundCreate(order: $orderId, input: $input) {
+      refund { id }
+      errors { field message }
+    }
+  }`,
+];
+
+// Answer the root type and __type lookups of the operations check. Field
+// types come back wrapped in a non-null type, as most schemas have them.
+const introspection = (
+  platform: string,
+  schema: FakeSchema,
+  queryType: string
+) => ({
+  [`Get ${platform} Root Types`]: {
+    __schema: {
+      queryType: { name: queryType },
+      mutationType: { name: "Mutation" },
+    },
+  },
+  [`Check ${platform} GraphQL Types`]: (query: string) =>
+    Object.fromEntries(
+      [...query.matchAll(/(type\d+): __type\(name: "(\w+)"\)/g)].map(
+        ([, alias, name]) => [
+          alias,
+          schema[name]
+            ? {
+                fields: Object.entries(schema[name]).map(([field, type]) => ({
+                  name: field,
+                  type: { name: null, ofType: { name: type } },
+                })),
+              }
+            : null,
+        ]
+      )
+    ),
+});
+
+const allScopes = SHOPIFY_OAUTH_SCOPES.split(",").map((handle) => ({
+  handle,
+}));
+
+const healthyShopify = () =>
+  fakeClient({
+    "Get Shopify Shop": {
+      shop: { name: "Test Store", myshopifyDomain: "test-store.myshopify.com" },
+    },
+    "Get Shopify Access Scopes": {
+      currentAppInstallation: { accessScopes: allScopes },
+    },
+    ...introspection("Shopify", shopifySchema, "QueryRoot"),
+  });
+
+const healthyNautical = () =>
+  fakeClient({
+    "Get Nautical Shop": { shop: { name: "Test Marketplace" } },
+    ...introspection("Nautical", nauticalSchema, "Query"),
+  });
+
+const run = (
+  shopify: ReturnType<typeof fakeClient>,
+  nautical: ReturnType<typeof fakeClient>
+) =>
+  runDiagnostics(
+    () => shopify,
+    () => nautical,
+    "tenant-1",
+    [{ shopify: shopifyOperations, nautical: nauticalOperations }]
+  );
+
+describe("findMissingScopes", () => {
+  test("treats a write scope as granting the read scope", () => {
+    expect(
+      findMissingScopes([
+        "write_products",
+        "write_inventory",
+        "read_locations",
+        "read_orders",
+        "read_customers",
+        "write_merchant_managed_fulfillment_orders",
+      ])
+    ).toEqual({});
+  });
+
+  test("lists missing scopes per flow", () => {
+    expect(findMissingScopes(["read_products", "read_orders"])).toEqual({
+      "Inventory Sync": ["read_inventory", "write_inventory", "read_locations"],
+      "Order Sync": ["read_customers"],
+      "Fulfillment Sync": [
+        "read_merchant_managed_fulfillment_orders",
+        "write_merchant_managed_fulfillment_orders",
+      ],
+      "Customer Sync": ["read_customers"],
+      "Setup Webhooks": ["read_customers", "read_inventory"],
+    });
+  });
+
+  test("the default OAuth scopes cover every flow", () => {
+    expect(findMissingScopes(SHOPIFY_OAUTH_SCOPES.split(","))).toEqual({});
+  });
+});
+
+describe("runDiagnostics", () => {
+  test("passes every check for healthy connections", async () => {
+    const report = await run(healthyShopify(), healthyNautical());
+
+    expect(report.passed).toBe(true);
+    expect(
+      report.checks.map((check) => [check.platform, check.name, check.passed])
+    ).toEqual([
+      ["Shopify", "Shop reachable", true],
+      ["Shopify", "Access scopes", true],
+      ["Shopify", "GraphQL operations", true],
+      ["Nautical", "Tenant and API key", true],
+      ["Nautical", "GraphQL operations", true],
+    ]);
+  });
+
+  test("reports granted versus required scopes when some are missing", async () => {
+    const shopify = healthyShopify();
+    shopify.query.mockImplementation((operation: string) =>
+      Promise.resolve(
+        operation === "Get Shopify Access Scopes"
+          ? {
+              currentAppInstallation: {
+                accessScopes: [{ handle: "read_products" }],
+              },
+            }
+          : { shop: { name: "Test Store", myshopifyDomain: "x" } }
+      )
+    );
+
+    const report = await run(shopify, healthyNautical());
+    const scopes = report.checks.find(
+      (check) => check.name === "Access scopes"
+    );
+
+    expect(report.passed).toBe(false);
+    expect(scopes).toMatchObject({
+      passed: false,
+      details: {
+        granted: ["read_products"],
+        required: SHOPIFY_FLOW_SCOPES,
+        missing: expect.objectContaining({
+          "Customer Sync": ["read_customers"],
+        }),
+      },
+    });
+    expect(scopes?.message).toContain("Customer Sync needs read_customers");
+  });
+
+  test("fails the tenant check without stopping the other checks", async () => {
+    const nautical = fakeClient({
+      "Get Nautical Shop": () =>
+        Promise.reject(new Error("Authentication error: Invalid tenant")),
+      ...introspection("Nautical", nauticalSchema, "Query"),
+    });
+
+    const report = await run(healthyShopify(), nautical);
+
+    expect(report.passed).toBe(false);
+    expect(report.checks).toContainEqual({
+      platform: "Nautical",
+      name: "Tenant and API key",
+      passed: false,
+      message: "Authentication error: Invalid tenant",
+    });
+    expect(report.checks.filter((check) => check.passed)).toHaveLength(4);
+  });
+
+  test("lists fields and types the schema does not define", async () => {
+    const nautical = fakeClient({
+      "Get Nautical Shop": { shop: { name: "Test Marketplace" } },
+      ...introspection(
+        "Nautical",
+        {
+          ...Object.fromEntries(
+            Object.entries(nauticalSchema).filter(
+              ([name]) => name !== "OrderRefundCreateInput"
+            )
+          ),
+          OrderRefund: { id: "ID" },
+        },
+        "Query"
+      ),
+    });
+
+    const report = await run(healthyShopify(), nautical);
+    const operationsCheck = report.checks.find(
+      (check) =>
+        check.platform === "Nautical" && check.name === "GraphQL operations"
+    );
+
+    expect(operationsCheck).toMatchObject({
+      passed: false,
+      details: {
+        problems: [
+          "CreateRefund: OrderRefundCreateInput is not a type in the schema",
+          "FindOrderRefunds: order.refunds.externalId is not a field of OrderRefund",
+        ],
+      },
+    });
+    expect(
+      report.checks.find(
+        (check) =>
+          check.platform === "Shopify" && check.name === "GraphQL operations"
+      )?.message
+    ).toBe("All 1 GraphQL operations match the schema");
+  });
+
+  test("fails operations it cannot read", async () => {
+    const report = await runDiagnostics(
+      () => healthyShopify(),
+      () => healthyNautical(),
+      "tenant-1",
+      [{ shopify: ["query GetShop { shop { ...ShopFields } }"] }]
+    );
+
+    expect(
+      report.checks.find(
+        (check) =>
+          check.platform === "Shopify" && check.name === "GraphQL operations"
+      )?.message
+    ).toBe(
+      "GraphQL operations do not match the schema: Could not read an operation: Named fragment ShopFields is not supported, use an inline fragment"
+    );
+  });
+
+  test("fails the checks of a connection that cannot create a client", async () => {
+    const report = await runDiagnostics(
+      () => {
+        throw new Error("The Shopify connection has no access token.");
+      },
+      () => healthyNautical(),
+      "tenant-1",
+      [{ shopify: shopifyOperations, nautical: nauticalOperations }]
+    );
+
+    expect(
+      report.checks
+        .filter((check) => check.platform === "Shopify")
+        .map((check) => [check.passed, check.message])
+    ).toEqual([
+      [false, "The Shopify connection has no access token."],
+      [false, "The Shopify connection has no access token."],
+      [false, "The Shopify connection has no access token."],
+    ]);
+    expect(
+      report.checks
+        .filter((check) => check.platform === "Nautical")
+        .every((check) => check.passed)
+    ).toBe(true);
+  });
+});
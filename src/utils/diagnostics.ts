@@ -0,0 +1,452 @@
+import type { ShopifyGraphqlClient } from "./shopifyGraphql";
+import type { NauticalGraphqlClient } from "./nauticalGraphql";
+import { SHOPIFY_FLOW_SCOPES } from "./shopifyScopes";
+import {
+  parseGraphqlOperation,
+  type GraphqlSelection,
+} from "./graphqlDocuments";
+
+// Types looked up in one introspection request
+const TYPES_PER_REQUEST = 50;
+
+// GraphQL documents a module sends to each platform. Every module that sends
+// GraphQL exports its documents as a *_OPERATIONS constant, and the
+// Connection Diagnostics flow checks them all against each platform's schema.
+export interface GraphqlOperations {
+  shopify?: string[];
+  nautical?: string[];
+}
+
+export interface DiagnosticCheck {
+  platform: "Shopify" | "Nautical";
+  name: string;
+  passed: boolean;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface DiagnosticReport {
+  passed: boolean;
+  checks: DiagnosticCheck[];
+}
+
+type CheckOutcome = Omit<DiagnosticCheck, "platform" | "name">;
+
+type GraphqlClient = Pick<
+  ShopifyGraphqlClient | NauticalGraphqlClient,
+  "query"
+>;
+
+// Type reference from introspection, wrapped deep enough for [Type!]!
+interface TypeRef {
+  name: string | null;
+  ofType?: TypeRef | null;
+}
+
+// Schema type with the named type of each field. Fields are null for types
+// that cannot have fields selected, such as scalars and input objects.
+interface SchemaType {
+  fields: { name: string; type: string }[] | null;
+}
+
+// Selection set still to check, with the type it selects from
+interface PendingSelections {
+  operation: string;
+  path: string;
+  typeName: string;
+  selections: GraphqlSelection[];
+}
+
+/**
+ * Run one check, turning any error it throws into a failed check
+ * @param platform Platform the check is for
+ * @param name Name of the check
+ * @param check Function returning the outcome of the check
+ * @returns The check's result
+ */
+async function runCheck(
+  platform: DiagnosticCheck["platform"],
+  name: string,
+  check: () => Promise<CheckOutcome>
+): Promise<DiagnosticCheck> {
+  try {
+    return { platform, name, ...(await check()) };
+  } catch (error) {
+    return {
+      platform,
+      name,
+      passed: false,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * List the scopes each flow needs that were not granted
+ * @param granted Scopes granted to the app
+ * @returns Missing scopes keyed by flow, for flows missing any
+ */
+export function findMissingScopes(granted: string[]): Record<string, string[]> {
+  const effective = new Set(granted);
+  for (const scope of granted) {
+    if (scope.startsWith("write_")) {
+      effective.add(scope.replace(/^write_/, "read_"));
+    }
+  }
+
+  const missing: Record<string, string[]> = {};
+  for (const [flowName, scopes] of Object.entries(SHOPIFY_FLOW_SCOPES)) {
+    const flowMissing = scopes.filter((scope) => !effective.has(scope));
+    if (flowMissing.length > 0) {
+      missing[flowName] = flowMissing;
+    }
+  }
+  return missing;
+}
+
+/**
+ * Unwrap list and non-null types down to the named type
+ * @param type Type reference from introspection
+ * @returns Name of the wrapped type
+ */
+function namedType(type: TypeRef): string {
+  let current: TypeRef | null | undefined = type;
+  while (current && !current.name) {
+    current = current.ofType;
+  }
+  return current?.name ?? "";
+}
+
+/**
+ * Look up GraphQL types by name with introspection
+ * @param client GraphQL client of either platform
+ * @param operation Description of the operation, used in errors
+ * @param typeNames Types to look up
+ * @returns Each type with its fields, or null when the schema does not
+ * define it
+ */
+async function fetchSchemaTypes(
+  client: GraphqlClient,
+  operation: string,
+  typeNames: string[]
+): Promise<Map<string, SchemaType | null>> {
+  const schemaTypes = new Map<string, SchemaType | null>();
+
+  for (let start = 0; start < typeNames.length; start += TYPES_PER_REQUEST) {
+    const batch = typeNames.slice(start, start + TYPES_PER_REQUEST);
+    const query = `
+      query CheckTypes {
+        ${batch
+          .map(
+            (name, index) =>
+              `type${index}: __type(name: "${name}") { fields(includeDeprecated: true) { name type { name ofType { name ofType { name ofType { name } } } } } }`
+          )
+          .join("\n        ")}
+      }
+    `;
+    const types = await client.query<
+      Record<
+        string,
+        { fields: { name: string; type: TypeRef }[] | null } | null
+      >
+    >(operation, query);
+
+    batch.forEach((name, index) => {
+      const type = types[`type${index}`];
+      schemaTypes.set(
+        name,
+        type && {
+          fields:
+            type.fields?.map((field) => ({
+              name: field.name,
+              type: namedType(field.type),
+            })) ?? null,
+        }
+      );
+    });
+  }
+
+  return schemaTypes;
+}
+
+/**
+ * Check every field and type the given operations use against a schema,
+ * walking the selections one level at a time so each level's types are
+ * looked up together
+ * @param client GraphQL client of the platform
+ * @param platform Platform name
+ * @param documents Queries and mutations the flows send
+ * @returns A description of each mismatch, empty when everything matches
+ */
+async function findSchemaMismatches(
+  client: GraphqlClient,
+  platform: DiagnosticCheck["platform"],
+  documents: string[]
+): Promise<string[]> {
+  const { __schema: schema } = await client.query<{
+    __schema: {
+      queryType: { name: string };
+      mutationType: { name: string } | null;
+    };
+  }>(
+    `Get ${platform} Root Types`,
+    "query GetRootTypes { __schema { queryType { name } mutationType { name } } }"
+  );
+
+  const problems: string[] = [];
+  let pending: PendingSelections[] = [];
+  for (const document of documents) {
+    let parsed;
+    try {
+      parsed = parseGraphqlOperation(document);
+    } catch (error) {
+      problems.push(
+        `Could not read an operation: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      continue;
+    }
+
+    const operation = parsed.name ?? "Unnamed query";
+    const rootType =
+      parsed.operation === "query"
+        ? schema.queryType.name
+        : schema.mutationType?.name;
+    if (!rootType) {
+      problems.push(`${operation}: the schema has no mutations`);
+      continue;
+    }
+
+    pending.push({
+      operation,
+      path: "",
+      typeName: rootType,
+      selections: parsed.selections,
+    });
+    for (const typeName of parsed.variableTypes) {
+      pending.push({ operation, path: "", typeName, selections: [] });
+    }
+  }
+
+  const types = new Map<string, SchemaType | null>();
+  while (pending.length > 0) {
+    const unseen = [...new Set(pending.map(({ typeName }) => typeName))].filter(
+      (typeName) => !types.has(typeName)
+    );
+    const fetched = await fetchSchemaTypes(
+      client,
+      `Check ${platform} GraphQL Types`,
+      unseen
+    );
+    fetched.forEach((type, typeName) => types.set(typeName, type));
+
+    const nextPending: PendingSelections[] = [];
+    for (const { operation, path, typeName, selections } of pending) {
+      const type = types.get(typeName);
+      if (!type) {
+        problems.push(`${operation}: ${typeName} is not a type in the schema`);
+        continue;
+      }
+
+      for (const selection of selections) {
+        if (selection.kind === "fragment") {
+          nextPending.push({
+            operation,
+            path,
+            typeName: selection.typeCondition,
+            selections: selection.selections,
+          });
+          continue;
+        }
+        if (selection.name === "__typename") continue;
+
+        const fieldPath = path ? `${path}.${selection.name}` : selection.name;
+        const field = type.fields?.find(({ name }) => name === selection.name);
+        if (!field) {
+          problems.push(
+            `${operation}: ${fieldPath} is not a field of ${typeName}`
+          );
+        } else if (selection.selections.length > 0) {
+          nextPending.push({
+            operation,
+            path: fieldPath,
+            typeName: field.type,
+            selections: selection.selections,
+          });
+        }
+      }
+    }
+    pending = nextPending;
+  }
+
+  return [...new Set(problems)];
+}
+
+/**
+ * Report on whether the flows' GraphQL operations match a platform's schema
+ * @param client GraphQL client of the platform
+ * @param platform Platform name
+ * @param documents Queries and mutations the flows send
+ * @returns Outcome of the check
+ */
+async function checkOperations(
+  client: GraphqlClient,
+  platform: DiagnosticCheck["platform"],
+  documents: string[]
+): Promise<CheckOutcome> {
+  const problems = await findSchemaMismatches(client, platform, documents);
+
+  return problems.length === 0
+    ? {
+        passed: true,
+        message: `All ${documents.length} GraphQL operations match the schema`,
+      }
+    : {
+        passed: false,
+        message: `GraphQL operations do not match the schema: ${problems.join(
+          "; "
+        )}`,
+        details: { problems },
+      };
+}
+
+/**
+ * Check that the shop is reachable with the connection's token
+ * @param client Shopify GraphQL client
+ * @returns Outcome of the check
+ */
+async function checkShopReachable(
+  client: ShopifyGraphqlClient
+): Promise<CheckOutcome> {
+  const { shop } = await client.query<{
+    shop: { name: string; myshopifyDomain: string };
+  }>("Get Shopify Shop", "query GetShop { shop { name myshopifyDomain } }");
+
+  return {
+    passed: true,
+    message: `Connected to ${shop.name} (${shop.myshopifyDomain})`,
+    details: { shop },
+  };
+}
+
+/**
+ * Compare the access scopes granted to the app with those each flow needs
+ * @param client Shopify GraphQL client
+ * @returns Outcome of the check
+ */
+async function checkShopifyScopes(
+  client: ShopifyGraphqlClient
+): Promise<CheckOutcome> {
+  const { currentAppInstallation } = await client.query<{
+    currentAppInstallation: { accessScopes: { handle: string }[] };
+  }>(
+    "Get Shopify Access Scopes",
+    "query GetAccessScopes { currentAppInstallation { accessScopes { handle } } }"
+  );
+
+  const granted = currentAppInstallation.accessScopes.map(
+    (scope) => scope.handle
+  );
+  const missing = findMissingScopes(granted);
+  const details = { granted, required: SHOPIFY_FLOW_SCOPES, missing };
+
+  const flowsMissingScopes = Object.keys(missing);
+  return flowsMissingScopes.length === 0
+    ? {
+        passed: true,
+        message: "Every flow has the access scopes it needs",
+        details,
+      }
+    : {
+        passed: false,
+        message: flowsMissingScopes
+          .map(
+            (flowName) => `${flowName} needs ${missing[flowName].join(", ")}`
+          )
+          .join("; "),
+        details,
+      };
+}
+
+/**
+ * Check that the API key is accepted for the configured tenant
+ * @param client Nautical GraphQL client
+ * @param tenantId Tenant ID from the Nautical connection
+ * @returns Outcome of the check
+ */
+async function checkNauticalTenant(
+  client: NauticalGraphqlClient,
+  tenantId: string
+): Promise<CheckOutcome> {
+  const { shop } = await client.query<{ shop: { name: string } | null }>(
+    "Get Nautical Shop",
+    "query GetShop { shop { name } }"
+  );
+  if (!shop) {
+    throw new Error(`Tenant ${tenantId} returned no shop`);
+  }
+
+  return {
+    passed: true,
+    message: `API key accepted for tenant ${tenantId} (${shop.name})`,
+    details: { tenantId, shop },
+  };
+}
+
+/**
+ * Create a client on first use, so a connection that cannot produce one
+ * fails its checks instead of the whole report
+ * @param create Function creating the client
+ * @returns Function returning the same client on every call
+ */
+function lazy<T>(create: () => T): () => T {
+  let client: T | undefined;
+  return () => (client ??= create());
+}
+
+/**
+ * Check both connections and report each check as passed or failed. Every
+ * check runs even when an earlier one fails.
+ * @param createShopify Function creating the Shopify GraphQL client
+ * @param createNautical Function creating the Nautical GraphQL client
+ * @param tenantId Tenant ID from the Nautical connection
+ * @param operations GraphQL operations of each module, checked against the
+ * schemas
+ * @returns Pass/fail report for each check
+ */
+export async function runDiagnostics(
+  createShopify: () => ShopifyGraphqlClient,
+  createNautical: () => NauticalGraphqlClient,
+  tenantId: string,
+  operations: GraphqlOperations[]
+): Promise<DiagnosticReport> {
+  const shopify = lazy(createShopify);
+  const nautical = lazy(createNautical);
+  const shopifyDocuments = [
+    ...new Set(operations.flatMap((module) => module.shopify ?? [])),
+  ];
+  const nauticalDocuments = [
+    ...new Set(operations.flatMap((module) => module.nautical ?? [])),
+  ];
+
+  const checks = [
+    await runCheck("Shopify", "Shop reachable", () =>
+      checkShopReachable(shopify())
+    ),
+    await runCheck("Shopify", "Access scopes", () =>
+      checkShopifyScopes(shopify())
+    ),
+    await runCheck("Shopify", "GraphQL operations", () =>
+      checkOperations(shopify(), "Shopify", shopifyDocuments)
+    ),
+    await runCheck("Nautical", "Tenant and API key", () =>
+      checkNauticalTenant(nautical(), tenantId)
+    ),
+    await runCheck("Nautical", "GraphQL operations", () =>
+      checkOperations(nautical(), "Nautical", nauticalDocuments)
+    ),
+  ];
+
+  return { passed: checks.every((check) => check.passed), checks };
+}
@@ -0,0 +1,21 @@
+// A change a sync flow would have written, returned instead when the
+// "Dry Run" config var is on
+export interface PlannedChange<T = unknown> {
+  action: "create" | "update" | "delete";
+  externalId: string;
+  nauticalId?: string;
+  data?: T;
+}
+
+/**
+ * Read the "Dry Run" config var. The config wizard may hand booleans over
+ * as strings.
+ * @param configVars Instance config vars
+ * @returns True when flows should report changes instead of writing them
+ */
+export function isDryRun(configVars: unknown): boolean {
+  const value = (configVars as Record<string, unknown> | undefined)?.[
+    "Dry Run"
+  ];
+  return value === true || value === "true";
+}
@@ -7,6 +7,7 @@ import type { ActionContext } from "@prismatic-io/spectral";
  * @param maxRetries Maximum number of retry attempts
  * @param delay Initial delay in milliseconds between retries (will be increased with exponential backoff)
  * @param context Optional action context for logging
+ * @param shouldRetry Optional check for errors worth retrying; other errors are rethrown as they are
  * @returns Promise resolving to the function result
  */
 export async function withRetry<T>(
@@ -14,6 +15,7 @@ export async function withRetry<T>(
   maxRetries = 3,
   delay = 1000,
   context?: ActionContext,
+  shouldRetry?: (error: unknown) => boolean,
 ): Promise<T> {
   let lastError: Error | undefined;
 
@@ -21,6 +23,10 @@ export async function withRetry<T>(
     try {
       return await fn();
     } catch (error) {
+      if (shouldRetry && !shouldRetry(error)) {
+        throw error;
+      }
+
       // Implement backoff strategy
       const retryDelay = delay * 2 ** i;
       const errorObject =
@@ -49,6 +55,32 @@ export async function withRetry<T>(
   throw new Error(`Failed after ${maxRetries} attempts: ${lastError?.message}`);
 }
 
+/**
+ * Check whether a failed request is worth retrying: network failures,
+ * rate limiting and server errors are, client errors are not
+ * @param error The error object caught in a try/catch
+ * @returns True when the request may succeed if sent again
+ */
+export function isTransientError(error: unknown): boolean {
+  const status = (error as { response?: { status?: number } }).response?.status;
+
+  if (status === undefined) {
+    return true;
+  }
+
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Check whether a request was turned away by rate limiting. Such a request
+ * never ran, so it is safe to send again even when it changes data.
+ * @param error The error object caught in a try/catch
+ * @returns True when the server responded with 429 Too Many Requests
+ */
+export function isRateLimitedError(error: unknown): boolean {
+  return (error as { response?: { status?: number } }).response?.status === 429;
+}
+
 /**
  * Properly handle and format API errors
  * @param error The error object caught in a try/catch
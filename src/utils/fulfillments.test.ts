@@ -0,0 +1,175 @@
+/**
+ * Tests for allocating Nautical fulfillment lines to Shopify fulfillment orders.
+ */
+
+import {
+  allocateFulfillmentLines,
+  type ShopifyFulfillmentOrder,
+} from "./fulfillments";
+
+const fulfillmentOrders: ShopifyFulfillmentOrder[] = [
+  {
+    id: "gid://shopify/FulfillmentOrder/1",
+    status: "OPEN",
+    assignedLocationId: "gid://shopify/Location/1",
+    lineItems: [
+      {
+        id: "gid://shopify/FulfillmentOrderLineItem/11",
+        sku: "TSHIRT-RED-M",
+        remainingQuantity: 2,
+      },
+      {
+        id: "gid://shopify/FulfillmentOrderLineItem/12",
+        sku: "MUG-1",
+        remainingQuantity: 1,
+      },
+    ],
+  },
+  {
+    id: "gid://shopify/FulfillmentOrder/2",
+    status: "OPEN",
+    assignedLocationId: "gid://shopify/Location/1",
+    lineItems: [
+      {
+        id: "gid://shopify/FulfillmentOrderLineItem/21",
+        sku: "TSHIRT-RED-M",
+        remainingQuantity: 3,
+      },
+    ],
+  },
+  {
+    id: "gid://shopify/FulfillmentOrder/3",
+    status: "CLOSED",
+    assignedLocationId: "gid://shopify/Location/1",
+    lineItems: [
+      {
+        id: "gid://shopify/FulfillmentOrderLineItem/31",
+        sku: "MUG-1",
+        remainingQuantity: 5,
+      },
+    ],
+  },
+];
+
+describe("allocateFulfillmentLines", () => {
+  test("spreads shipped quantities over open fulfillment orders", () => {
+    expect(
+      allocateFulfillmentLines(fulfillmentOrders, [
+        { sku: "TSHIRT-RED-M", quantity: 3 },
+        { sku: "MUG-1", quantity: 1 },
+      ])
+    ).toEqual([
+      {
+        locationId: "gid://shopify/Location/1",
+        lineItemsByFulfillmentOrder: [
+          {
+            fulfillmentOrderId: "gid://shopify/FulfillmentOrder/1",
+            fulfillmentOrderLineItems: [
+              { id: "gid://shopify/FulfillmentOrderLineItem/11", quantity: 2 },
+              { id: "gid://shopify/FulfillmentOrderLineItem/12", quantity: 1 },
+            ],
+          },
+          {
+            fulfillmentOrderId: "gid://shopify/FulfillmentOrder/2",
+            fulfillmentOrderLineItems: [
+              { id: "gid://shopify/FulfillmentOrderLineItem/21", quantity: 1 },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("creates one fulfillment per location", () => {
+    const splitFulfillmentOrders: ShopifyFulfillmentOrder[] = [
+      {
+        ...fulfillmentOrders[0],
+        assignedLocationId: "gid://shopify/Location/1",
+      },
+      {
+        ...fulfillmentOrders[1],
+        assignedLocationId: "gid://shopify/Location/2",
+      },
+    ];
+
+    expect(
+      allocateFulfillmentLines(splitFulfillmentOrders, [
+        { sku: "TSHIRT-RED-M", quantity: 4 },
+      ])
+    ).toEqual([
+      {
+        locationId: "gid://shopify/Location/1",
+        lineItemsByFulfillmentOrder: [
+          {
+            fulfillmentOrderId: "gid://shopify/FulfillmentOrder/1",
+            fulfillmentOrderLineItems: [
+              { id: "gid://shopify/FulfillmentOrderLineItem/11", quantity: 2 },
+            ],
+          },
+        ],
+      },
+      {
+        locationId: "gid://shopify/Location/2",
+        lineItemsByFulfillmentOrder: [
+          {
+            fulfillmentOrderId: "gid://shopify/FulfillmentOrder/2",
+            fulfillmentOrderLineItems: [
+              { id: "gid://shopify/FulfillmentOrderLineItem/21", quantity: 2 },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("does not group fulfillment orders whose location was deleted", () => {
+    const orphanedFulfillmentOrders: ShopifyFulfillmentOrder[] = [
+      { ...fulfillmentOrders[0], assignedLocationId: null },
+      { ...fulfillmentOrders[1], assignedLocationId: null },
+    ];
+
+    expect(
+      allocateFulfillmentLines(orphanedFulfillmentOrders, [
+        { sku: "TSHIRT-RED-M", quantity: 3 },
+      ]).map(({ lineItemsByFulfillmentOrder }) =>
+        lineItemsByFulfillmentOrder.map(
+          ({ fulfillmentOrderId }) => fulfillmentOrderId
+        )
+      )
+    ).toEqual([
+      ["gid://shopify/FulfillmentOrder/1"],
+      ["gid://shopify/FulfillmentOrder/2"],
+    ]);
+  });
+
+  test("only fulfills part of a line when part was shipped", () => {
+    expect(
+      allocateFulfillmentLines(fulfillmentOrders, [
+        { sku: "TSHIRT-RED-M", quantity: 1 },
+      ])
+    ).toEqual([
+      {
+        locationId: "gid://shopify/Location/1",
+        lineItemsByFulfillmentOrder: [
+          {
+            fulfillmentOrderId: "gid://shopify/FulfillmentOrder/1",
+            fulfillmentOrderLineItems: [
+              { id: "gid://shopify/FulfillmentOrderLineItem/11", quantity: 1 },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("fails when more was shipped than Shopify has left to fulfill", () => {
+    expect(() =>
+      allocateFulfillmentLines(fulfillmentOrders, [
+        { sku: "MUG-1", quantity: 2 },
+        { sku: "POSTER-A2", quantity: 1 },
+      ])
+    ).toThrow(
+      "No open Shopify fulfillment order line items for 1 x MUG-1, 1 x POSTER-A2"
+    );
+  });
+});
@@ -0,0 +1,108 @@
+// Open fulfillment order in Shopify, with what is left to ship per line item
+export interface ShopifyFulfillmentOrder {
+  id: string;
+  status: string;
+  // Location the fulfillment order ships from, null when it was deleted
+  assignedLocationId: string | null;
+  lineItems: {
+    id: string;
+    sku: string | null;
+    remainingQuantity: number;
+  }[];
+}
+
+// Shipped quantity of one SKU in a Nautical fulfillment
+export interface FulfilledLine {
+  sku: string;
+  quantity: number;
+}
+
+export interface FulfillmentOrderLineItems {
+  fulfillmentOrderId: string;
+  fulfillmentOrderLineItems: { id: string; quantity: number }[];
+}
+
+// Line items shipped from one location, sent as one Shopify fulfillment
+export interface FulfillmentAllocation {
+  locationId: string | null;
+  lineItemsByFulfillmentOrder: FulfillmentOrderLineItems[];
+}
+
+// Fulfillment orders that can still be fulfilled
+const FULFILLABLE_STATUSES = ["OPEN", "IN_PROGRESS"];
+
+/**
+ * Allocate the lines of a Nautical fulfillment to Shopify fulfillment order
+ * line items by SKU. Shopify only accepts fulfillment orders from a single
+ * location in one fulfillmentCreate, so the line items are grouped by the
+ * location they ship from.
+ * @param fulfillmentOrders Fulfillment orders of the Shopify order
+ * @param lines Shipped quantities from Nautical
+ * @returns One allocation per location, with its line items grouped by
+ * fulfillment order
+ */
+export function allocateFulfillmentLines(
+  fulfillmentOrders: ShopifyFulfillmentOrder[],
+  lines: FulfilledLine[]
+): FulfillmentAllocation[] {
+  const remainingBySku = new Map<string, number>();
+  for (const line of lines) {
+    remainingBySku.set(
+      line.sku,
+      (remainingBySku.get(line.sku) ?? 0) + line.quantity
+    );
+  }
+
+  const allocations: FulfillmentAllocation[] = [];
+  for (const fulfillmentOrder of fulfillmentOrders) {
+    if (!FULFILLABLE_STATUSES.includes(fulfillmentOrder.status)) continue;
+
+    const fulfillmentOrderLineItems: { id: string; quantity: number }[] = [];
+    for (const lineItem of fulfillmentOrder.lineItems) {
+      if (!lineItem.sku) continue;
+
+      const wanted = remainingBySku.get(lineItem.sku) ?? 0;
+      const quantity = Math.min(wanted, lineItem.remainingQuantity);
+      if (quantity <= 0) continue;
+
+      fulfillmentOrderLineItems.push({ id: lineItem.id, quantity });
+      remainingBySku.set(lineItem.sku, wanted - quantity);
+    }
+
+    if (fulfillmentOrderLineItems.length === 0) continue;
+
+    const lineItems = {
+      fulfillmentOrderId: fulfillmentOrder.id,
+      fulfillmentOrderLineItems,
+    };
+    // A fulfillment order whose location was deleted is sent on its own
+    const allocation =
+      fulfillmentOrder.assignedLocationId === null
+        ? undefined
+        : allocations.find(
+            ({ locationId }) =>
+              locationId === fulfillmentOrder.assignedLocationId
+          );
+    if (allocation) {
+      allocation.lineItemsByFulfillmentOrder.push(lineItems);
+    } else {
+      allocations.push({
+        locationId: fulfillmentOrder.assignedLocationId,
+        lineItemsByFulfillmentOrder: [lineItems],
+      });
+    }
+  }
+
+  const unallocated = [...remainingBySku].filter(
+    ([, quantity]) => quantity > 0
+  );
+  if (unallocated.length > 0) {
+    throw new Error(
+      `No open Shopify fulfillment order line items for ${unallocated
+        .map(([sku, quantity]) => `${quantity} x ${sku}`)
+        .join(", ")}`
+    );
+  }
+
+  return allocations;
+}
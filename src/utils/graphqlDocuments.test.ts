@@ -0,0 +1,93 @@
+/**
+ * Tests for parsing the fields a GraphQL operation selects.
+ */
+
+import { parseGraphqlOperation } from "./graphqlDocuments";
+
+describe("parseGraphqlOperation", () => {
+  test("reads the operation, its variable types and nested fields", () => {
+    expect(
+      parseGraphqlOperation(`
+        query GetOrders($ids: [ID!]!, $cursor: String) {
+          nodes(ids: $ids) {
+            id
+          }
+          orders(first: 10, after: $cursor, filter: { updatedAt: { gte: "2024-01-01" } }) {
+            pageInfo { hasNextPage }
+          }
+        }
+      `)
+    ).toEqual({
+      operation: "query",
+      name: "GetOrders",
+      variableTypes: ["ID", "String"],
+      selections: [
+        {
+          kind: "field",
+          name: "nodes",
+          selections: [{ kind: "field", name: "id", selections: [] }],
+        },
+        {
+          kind: "field",
+          name: "orders",
+          selections: [
+            {
+              kind: "field",
+              name: "pageInfo",
+              selections: [
+                { kind: "field", name: "hasNextPage", selections: [] },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  test("uses the field name behind an alias and keeps inline fragments", () => {
+    const { selections } = parseGraphqlOperation(`
+      mutation Create($input: ProductInput! = { title: "A, b" }) {
+        created: productCreate(input: $input) @include(if: true) {
+          product { ... on Product { id } }
+        }
+      }
+    `);
+
+    expect(selections).toEqual([
+      {
+        kind: "field",
+        name: "productCreate",
+        selections: [
+          {
+            kind: "field",
+            name: "product",
+            selections: [
+              {
+                kind: "fragment",
+                typeCondition: "Product",
+                selections: [{ kind: "field", name: "id", selections: [] }],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("reads a query without a name", () => {
+    expect(parseGraphqlOperation("{ shop { name } }")).toMatchObject({
+      operation: "query",
+      name: null,
+      variableTypes: [],
+    });
+  });
+
+  test("rejects documents it cannot check", () => {
+    expect(() =>
+      parseGraphqlOperation("query GetShop { shop { ...ShopFields } }")
+    ).toThrow("Named fragment ShopFields is not supported");
+    expect(() =>
+      parseGraphqlOperation("query GetShop { shop { name }")
+    ).toThrow("Unexpected end of GraphQL document");
+  });
+});
@@ -0,0 +1,190 @@
+// Field or inline fragment in a selection set
+export type GraphqlSelection =
+  | { kind: "field"; name: string; selections: GraphqlSelection[] }
+  | { kind: "fragment"; typeCondition: string; selections: GraphqlSelection[] };
+
+export interface GraphqlOperationDocument {
+  operation: "query" | "mutation";
+  name: string | null;
+  // Named types of the operation's variables, e.g. "OrderCreateInput"
+  variableTypes: string[];
+  selections: GraphqlSelection[];
+}
+
+// Punctuators, strings, numbers and names; whitespace, commas and comments
+// are insignificant in GraphQL
+const TOKEN_PATTERN =
+  /[\s,]+|#[^\n]*|(\.\.\.|[{}()[\]:!$=@]|"(?:\\.|[^"\\])*"|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|[_A-Za-z]\w*)/y;
+
+/**
+ * Split a GraphQL document into tokens
+ * @param document GraphQL document
+ * @returns Significant tokens, in order
+ */
+function tokenize(document: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < document.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(document);
+    if (!match) {
+      throw new Error(
+        `Unexpected character "${document[start]}" in GraphQL document`
+      );
+    }
+    if (match[1]) {
+      tokens.push(match[1]);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse the selections of a single query or mutation, so the fields it
+ * uses can be checked against a schema. Arguments and directives are
+ * skipped; named fragments are not supported.
+ * @param document GraphQL document holding one operation
+ * @returns The operation's type, name, variable types and selections
+ */
+export function parseGraphqlOperation(
+  document: string
+): GraphqlOperationDocument {
+  const tokens = tokenize(document);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => {
+    if (position >= tokens.length) {
+      throw new Error("Unexpected end of GraphQL document");
+    }
+    return tokens[position++];
+  };
+  const expect = (token: string) => {
+    const actual = next();
+    if (actual !== token) {
+      throw new Error(`Expected "${token}" but found "${actual}"`);
+    }
+  };
+  const name = () => {
+    const token = next();
+    if (!/^[_A-Za-z]/.test(token)) {
+      throw new Error(`Expected a name but found "${token}"`);
+    }
+    return token;
+  };
+
+  // Skip a bracketed value, e.g. an argument list or an input object
+  const skipBalanced = () => {
+    let depth = 0;
+    do {
+      const token = next();
+      if (["(", "[", "{"].includes(token)) depth++;
+      if ([")", "]", "}"].includes(token)) depth--;
+    } while (depth > 0);
+  };
+  const skipValue = () => {
+    if (["(", "[", "{"].includes(peek())) {
+      skipBalanced();
+    } else {
+      if (next() === "$") name();
+    }
+  };
+  const skipDirectives = () => {
+    while (peek() === "@") {
+      next();
+      name();
+      if (peek() === "(") skipBalanced();
+    }
+  };
+
+  const parseSelectionSet = (): GraphqlSelection[] => {
+    expect("{");
+    const selections: GraphqlSelection[] = [];
+
+    while (peek() !== "}") {
+      if (peek() === "...") {
+        next();
+        if (peek() !== "on") {
+          throw new Error(
+            `Named fragment ${peek()} is not supported, use an inline fragment`
+          );
+        }
+        next();
+        const typeCondition = name();
+        skipDirectives();
+        selections.push({
+          kind: "fragment",
+          typeCondition,
+          selections: parseSelectionSet(),
+        });
+        continue;
+      }
+
+      let fieldName = name();
+      if (peek() === ":") {
+        // The alias comes first
+        next();
+        fieldName = name();
+      }
+      if (peek() === "(") skipBalanced();
+      skipDirectives();
+
+      selections.push({
+        kind: "field",
+        name: fieldName,
+        selections: peek() === "{" ? parseSelectionSet() : [],
+      });
+    }
+
+    expect("}");
+    return selections;
+  };
+
+  // A document starting with a selection set is a query without a name
+  if (peek() === "{") {
+    const selections = parseSelectionSet();
+    return { operation: "query", name: null, variableTypes: [], selections };
+  }
+
+  const operation = next();
+  if (operation !== "query" && operation !== "mutation") {
+    throw new Error(`Unsupported GraphQL operation "${operation}"`);
+  }
+  const operationName = peek() === "(" || peek() === "{" ? null : name();
+
+  const variableTypes: string[] = [];
+  if (peek() === "(") {
+    next();
+    while (peek() !== ")") {
+      expect("$");
+      name();
+      expect(":");
+      while (peek() === "[") next();
+      variableTypes.push(name());
+      while (["!", "]"].includes(peek())) next();
+      if (peek() === "=") {
+        next();
+        skipValue();
+      }
+      skipDirectives();
+    }
+    next();
+  }
+  skipDirectives();
+
+  const selections = parseSelectionSet();
+  if (position < tokens.length) {
+    throw new Error(
+      `Unexpected "${peek()}" after the operation, only one is supported`
+    );
+  }
+
+  return {
+    operation,
+    name: operationName,
+    variableTypes: [...new Set(variableTypes)],
+    selections,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Tests for grouping Shopify locations by their mapped Nautical warehouse.
+ */
+
+import { parseLocationMapping, buildLocationGroups } from "./locationMapping";
+
+const locations = [
+  { id: "gid://shopify/Location/1", name: "Toronto" },
+  { id: "gid://shopify/Location/2", name: "Montreal" },
+  { id: "gid://shopify/Location/3", name: "Pop-up Shop" },
+];
+
+const mapping = {
+  "gid://shopify/Location/1": "warehouse-east",
+  "gid://shopify/Location/2": "warehouse-east",
+};
+
+describe("parseLocationMapping", () => {
+  test("keeps only rows with a mapped warehouse", () => {
+    const fieldMap = {
+      fields: [
+        {
+          field: { key: "gid://shopify/Location/1", label: "Toronto" },
+          mappedObject: { key: "nauticalWarehouse" },
+          mappedField: { key: "warehouse-east", label: "East" },
+        },
+        { field: { key: "gid://shopify/Location/3", label: "Pop-up Shop" } },
+      ],
+    };
+
+    expect(parseLocationMapping(fieldMap)).toEqual({
+      "gid://shopify/Location/1": "warehouse-east",
+    });
+    expect(parseLocationMapping(JSON.stringify(fieldMap))).toEqual({
+      "gid://shopify/Location/1": "warehouse-east",
+    });
+    expect(parseLocationMapping(undefined)).toEqual({});
+  });
+});
+
+describe("buildLocationGroups", () => {
+  test("uses a single all-location group when nothing is mapped", () => {
+    expect(buildLocationGroups(locations, {}, "Fail")).toEqual([
+      {
+        shopifyLocationIds: [
+          "gid://shopify/Location/1",
+          "gid://shopify/Location/2",
+          "gid://shopify/Location/3",
+        ],
+      },
+    ]);
+  });
+
+  test("groups mapped locations and ignores unmapped ones", () => {
+    expect(buildLocationGroups(locations, mapping, "Ignore")).toEqual([
+      {
+        warehouseId: "warehouse-east",
+        shopifyLocationIds: [
+          "gid://shopify/Location/1",
+          "gid://shopify/Location/2",
+        ],
+      },
+    ]);
+  });
+
+  test("aggregates unmapped locations into the default warehouse", () => {
+    expect(
+      buildLocationGroups(
+        locations,
+        mapping,
+        "Aggregate Into Default Warehouse",
+        "warehouse-default"
+      )
+    ).toEqual([
+      {
+        warehouseId: "warehouse-east",
+        shopifyLocationIds: [
+          "gid://shopify/Location/1",
+          "gid://shopify/Location/2",
+        ],
+      },
+      {
+        warehouseId: "warehouse-default",
+        shopifyLocationIds: ["gid://shopify/Location/3"],
+      },
+    ]);
+    expect(() =>
+      buildLocationGroups(
+        locations,
+        mapping,
+        "Aggregate Into Default Warehouse"
+      )
+    ).toThrow(/default warehouse is required/);
+  });
+
+  test("fails when a location is unmapped", () => {
+    expect(() => buildLocationGroups(locations, mapping, "Fail")).toThrow(
+      "Shopify locations are not mapped to a Nautical warehouse: Pop-up Shop"
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import type { ObjectFieldMap } from "@prismatic-io/spectral";
+
+export type UnmappedLocationHandling =
+  | "Ignore"
+  | "Aggregate Into Default Warehouse"
+  | "Fail";
+
+// Shopify locations whose combined stock is synced with one Nautical
+// warehouse. Without a warehouse, the variant's total stock is used.
+export interface LocationGroup {
+  warehouseId?: string;
+  shopifyLocationIds: string[];
+}
+
+/**
+ * Read the saved "Inventory Location Mapping" config var
+ * @param value Object field map, or its JSON serialization
+ * @returns Nautical warehouse ID keyed by Shopify location ID
+ */
+export function parseLocationMapping(
+  value: ObjectFieldMap | string | undefined
+): Record<string, string> {
+  const fieldMap: ObjectFieldMap | undefined =
+    typeof value === "string" && value ? JSON.parse(value) : value || undefined;
+  const mapping: Record<string, string> = {};
+
+  for (const { field, mappedField } of fieldMap?.fields ?? []) {
+    if (mappedField?.key) {
+      mapping[field.key] = mappedField.key;
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Group Shopify locations by the Nautical warehouse they sync with
+ * @param locations Shopify locations that hold stock
+ * @param mapping Nautical warehouse ID keyed by Shopify location ID
+ * @param unmappedHandling What to do with locations missing from the mapping
+ * @param defaultWarehouseId Warehouse that collects unmapped locations
+ * @returns One group per warehouse, or a single all-location group when no
+ * mapping has been configured
+ */
+export function buildLocationGroups(
+  locations: { id: string; name: string }[],
+  mapping: Record<string, string>,
+  unmappedHandling: UnmappedLocationHandling,
+  defaultWarehouseId?: string
+): LocationGroup[] {
+  if (Object.keys(mapping).length === 0) {
+    return [{ shopifyLocationIds: locations.map((location) => location.id) }];
+  }
+
+  const unmapped = locations.filter((location) => !mapping[location.id]);
+  if (unmapped.length > 0 && unmappedHandling === "Fail") {
+    throw new Error(
+      `Shopify locations are not mapped to a Nautical warehouse: ${unmapped
+        .map((location) => location.name)
+        .join(", ")}`
+    );
+  }
+  if (
+    unmapped.length > 0 &&
+    unmappedHandling === "Aggregate Into Default Warehouse" &&
+    !defaultWarehouseId
+  ) {
+    throw new Error(
+      "A default warehouse is required to aggregate unmapped Shopify locations"
+    );
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const location of locations) {
+    const warehouseId =
+      mapping[location.id] ??
+      (unmappedHandling === "Aggregate Into Default Warehouse"
+        ? defaultWarehouseId
+        : undefined);
+    if (!warehouseId) continue;
+
+    groups.set(warehouseId, [...(groups.get(warehouseId) ?? []), location.id]);
+  }
+
+  return [...groups].map(([warehouseId, shopifyLocationIds]) => ({
+    warehouseId,
+    shopifyLocationIds,
+  }));
+}
@@ -0,0 +1,55 @@
+/**
+ * Tests for exact money arithmetic in minor units.
+ */
+
+import {
+  currencyDecimals,
+  toMinorUnits,
+  fromMinorUnits,
+  allocateMinorUnits,
+} from "./money";
+
+describe("money", () => {
+  test("knows the decimal places of each currency", () => {
+    expect(currencyDecimals("USD")).toBe(2);
+    expect(currencyDecimals("JPY")).toBe(0);
+    expect(currencyDecimals("KWD")).toBe(3);
+    expect(() => currencyDecimals("NOPE")).toThrow("Unknown currency: NOPE");
+  });
+
+  test("converts amounts to and from minor units without rounding", () => {
+    expect(toMinorUnits("19.99")).toBe(1999);
+    expect(toMinorUnits("0.1")).toBe(10);
+    expect(toMinorUnits("-5.05")).toBe(-505);
+    expect(toMinorUnits("1200", 0)).toBe(1200);
+    expect(toMinorUnits("1.234", 3)).toBe(1234);
+    expect(toMinorUnits("19.990")).toBe(1999);
+
+    expect(fromMinorUnits(1999)).toBe("19.99");
+    expect(fromMinorUnits(-505)).toBe("-5.05");
+    expect(fromMinorUnits(1200, 0)).toBe("1200");
+    expect(fromMinorUnits(1234, 3)).toBe("1.234");
+  });
+
+  test("rejects amounts more precise than the currency", () => {
+    expect(() => toMinorUnits("1.999")).toThrow("more than 2 decimal places");
+    expect(() => toMinorUnits("12.5", 0)).toThrow("more than 0 decimal places");
+    expect(() => toMinorUnits("abc")).toThrow("Invalid money amount");
+  });
+
+  test("adds up where floating point would not", () => {
+    const total = ["0.10", "0.20"].reduce(
+      (sum, amount) => sum + toMinorUnits(amount),
+      0
+    );
+    expect(fromMinorUnits(total)).toBe("0.30");
+    expect(fromMinorUnits(toMinorUnits("19.99") * 3)).toBe("59.97");
+  });
+
+  test("allocates an amount without losing a cent", () => {
+    expect(allocateMinorUnits(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateMinorUnits(1000, [3, 1])).toEqual([750, 250]);
+    expect(allocateMinorUnits(5, [0, 0])).toEqual([3, 2]);
+    expect(allocateMinorUnits(5, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+// Amount in one currency, as returned by Shopify's MoneyV2
+export interface Money {
+  amount: string;
+  currencyCode: string;
+}
+
+// Amount in the shop's currency and the currency the customer paid in
+export interface MoneyBag {
+  shopMoney: Money;
+  presentmentMoney: Money;
+}
+
+/**
+ * Number of decimal places used by a currency, e.g. 2 for USD and 0 for JPY
+ * @param currencyCode ISO 4217 currency code
+ * @returns Decimal places of the currency's minor unit
+ */
+export function currencyDecimals(currencyCode: string): number {
+  let decimals: number | undefined;
+  try {
+    decimals = new Intl.NumberFormat("en", {
+      style: "currency",
+      currency: currencyCode,
+    }).resolvedOptions().maximumFractionDigits;
+  } catch {
+    throw new Error(`Unknown currency: ${currencyCode}`);
+  }
+
+  return decimals ?? 2;
+}
+
+/**
+ * Convert a decimal amount string such as "19.99" to integer minor units
+ * @param amount Decimal amount as sent by Shopify
+ * @param decimals Decimal places of the currency
+ * @returns Amount in minor units, e.g. cents
+ */
+export function toMinorUnits(amount: string, decimals = 2): number {
+  const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(amount.trim());
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid money amount: ${amount}`);
+  }
+
+  const [, sign, whole, fraction = ""] = match;
+  if (fraction.replace(/0+$/, "").length > decimals) {
+    throw new Error(
+      `Money amount has more than ${decimals} decimal places: ${amount}`
+    );
+  }
+
+  const units =
+    Number(whole || "0") * 10 ** decimals +
+    Number(fraction.padEnd(decimals, "0").slice(0, decimals) || "0");
+  return sign ? -units : units;
+}
+
+/**
+ * Convert integer minor units back to a decimal amount string
+ * @param units Amount in minor units, e.g. cents
+ * @param decimals Decimal places of the currency
+ * @returns Decimal amount with the currency's decimal places
+ */
+export function fromMinorUnits(units: number, decimals = 2): string {
+  const sign = units < 0 ? "-" : "";
+  const absolute = Math.abs(units);
+  const scale = 10 ** decimals;
+  const whole = Math.floor(absolute / scale);
+  if (decimals === 0) return `${sign}${whole}`;
+
+  return `${sign}${whole}.${String(absolute % scale).padStart(decimals, "0")}`;
+}
+
+/**
+ * Split an amount in proportion to a set of weights without losing a cent.
+ * Leftover cents go to the shares with the largest remainders.
+ * @param units Amount to split, in cents
+ * @param weights Relative size of each share
+ * @returns Shares in cents, summing exactly to the amount
+ */
+export function allocateMinorUnits(units: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0) return [];
+  if (totalWeight === 0) {
+    // Nothing to weigh by, so split evenly
+    return allocateMinorUnits(
+      units,
+      weights.map(() => 1)
+    );
+  }
+
+  const exact = weights.map((weight) => (units * weight) / totalWeight);
+  const shares = exact.map(Math.floor);
+  let leftover = units - shares.reduce((sum, share) => sum + share, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    shares[index] += 1;
+    leftover -= 1;
+  }
+
+  return shares;
+}
@@ -0,0 +1,196 @@
+/**
+ * Tests for retries and error handling in the Nautical GraphQL client.
+ */
+
+import {
+  wrapNauticalHttpClient,
+  NauticalGraphqlError,
+  NauticalUserErrorsError,
+} from "./nauticalGraphql";
+
+// Fake HTTP client that answers each post with the next response body, or
+// rejects when the next entry is an Error
+function fakeNautical(...responses: unknown[]) {
+  const post = jest.fn(() => {
+    const response = responses.shift();
+    if (!response) throw new Error("Unexpected request");
+    return response instanceof Error
+      ? Promise.reject(response)
+      : Promise.resolve({ data: response });
+  });
+  const client = wrapNauticalHttpClient(
+    { post } as unknown as Parameters<typeof wrapNauticalHttpClient>[0],
+    { retryDelay: 0 }
+  );
+  return { client, post };
+}
+
+// Axios-style error for an HTTP status
+function httpError(status: number) {
+  return Object.assign(new Error(`Request failed with status ${status}`), {
+    response: { status, data: {} },
+  });
+}
+
+describe("Nautical GraphQL client", () => {
+  beforeEach(() => {
+    jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+    jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("posts to the GraphQL endpoint and returns the data", async () => {
+    const { client, post } = fakeNautical({
+      data: { warehouses: { nodes: [] } },
+    });
+
+    await expect(
+      client.query("List Warehouses", "{ warehouses { nodes { id } } }")
+    ).resolves.toEqual({ warehouses: { nodes: [] } });
+    expect(post).toHaveBeenCalledWith("", {
+      query: "{ warehouses { nodes { id } } }",
+      variables: {},
+    });
+  });
+
+  test("retries server errors", async () => {
+    const { client, post } = fakeNautical(httpError(503), {
+      data: { a: 1 },
+    });
+
+    await expect(client.query("Get A", "{ a }")).resolves.toEqual({ a: 1 });
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  test("does not retry client errors", async () => {
+    const { client, post } = fakeNautical(httpError(401), { data: { a: 1 } });
+
+    await expect(client.query("Get A", "{ a }")).rejects.toThrow(
+      "Authentication error"
+    );
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  test("throws GraphQL errors with the operation name", async () => {
+    const { client } = fakeNautical({
+      errors: [{ message: "Cannot query field 'nope'" }],
+    });
+
+    const error = await client
+      .query("Get A", "{ nope }")
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(NauticalGraphqlError);
+    expect(error).toHaveProperty(
+      "message",
+      "Get A failed: Cannot query field 'nope'"
+    );
+  });
+
+  test.each(["userErrors", "errors"])(
+    "surfaces mutation %s as a typed error",
+    async (errorField) => {
+      const { client } = fakeNautical({
+        data: {
+          productCreate: {
+            product: null,
+            [errorField]: [
+              { field: "name", message: "This field is required" },
+            ],
+          },
+        },
+      });
+
+      const error = await client
+        .mutate("Create Product", "mutation", { input: {} }, "productCreate")
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(NauticalUserErrorsError);
+      expect(error).toMatchObject({
+        operation: "Create Product",
+        userErrors: [{ field: "name", message: "This field is required" }],
+        message: "Create Product failed: name: This field is required",
+      });
+    }
+  );
+
+  test("returns the mutation payload when there are no errors", async () => {
+    const { client } = fakeNautical({
+      data: {
+        orderCancel: { order: { id: "order-1" }, userErrors: [] },
+      },
+    });
+
+    await expect(
+      client.mutate("Cancel Order", "mutation", {}, "orderCancel")
+    ).resolves.toEqual({ order: { id: "order-1" }, userErrors: [] });
+  });
+
+  test("does not resend a mutation after a server error", async () => {
+    const { client, post } = fakeNautical(httpError(503), {
+      data: { productDelete: { deletedProductId: "1" } },
+    });
+
+    await expect(
+      client.mutate("Delete Product", "mutation", {}, "productDelete")
+    ).rejects.toThrow("API error (503)");
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  test("resends a mutation that was rate limited", async () => {
+    const { client, post } = fakeNautical(httpError(429), {
+      data: { productDelete: { deletedProductId: "1" } },
+    });
+
+    await expect(
+      client.mutate("Delete Product", "mutation", {}, "productDelete")
+    ).resolves.toEqual({ deletedProductId: "1" });
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  test("resends an idempotent mutation after a server error", async () => {
+    const { client, post } = fakeNautical(httpError(503), {
+      data: { productUpdate: { product: { id: "1" } } },
+    });
+
+    await expect(
+      client.mutate("Update Product", "mutation", {}, "productUpdate", {
+        idempotent: true,
+      })
+    ).resolves.toEqual({ product: { id: "1" } });
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  test("returns what a failed create made instead of creating it again", async () => {
+    const { client, post } = fakeNautical(httpError(502));
+    const findExisting = jest.fn(() =>
+      Promise.resolve({ product: { id: "1" } })
+    );
+
+    await expect(
+      client.mutate("Create Product", "mutation", {}, "productCreate", {
+        findExisting,
+      })
+    ).resolves.toEqual({ product: { id: "1" } });
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(findExisting).toHaveBeenCalledTimes(1);
+  });
+
+  test("resends a create once a lookup shows nothing was created", async () => {
+    const { client, post } = fakeNautical(new Error("socket hang up"), {
+      data: { productCreate: { product: { id: "2" }, userErrors: [] } },
+    });
+    const findExisting = jest.fn(() => Promise.resolve(null));
+
+    await expect(
+      client.mutate("Create Product", "mutation", {}, "productCreate", {
+        findExisting,
+      })
+    ).resolves.toEqual({ product: { id: "2" }, userErrors: [] });
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(findExisting).toHaveBeenCalledTimes(1);
+  });
+});
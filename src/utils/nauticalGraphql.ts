@@ -0,0 +1,242 @@
+import type { Connection } from "@prismatic-io/spectral";
+import type { HttpClient } from "@prismatic-io/spectral/dist/clients/http";
+import { createNauticalClient } from "../client";
+import {
+  withRetry,
+  handleApiError,
+  isTransientError,
+  isRateLimitedError,
+} from "./errorHandling";
+
+// Attempts at a request that keeps failing with a transient error
+const MAX_ATTEMPTS = 3;
+
+export interface NauticalUserError {
+  field?: string | null;
+  message: string;
+  code?: string | null;
+}
+
+interface NauticalGraphqlErrorDetail {
+  message: string;
+  path?: (string | number)[];
+}
+
+interface NauticalGraphqlResponse {
+  data?: Record<string, unknown> | null;
+  errors?: NauticalGraphqlErrorDetail[];
+}
+
+/**
+ * Nautical rejected a request with top-level GraphQL errors
+ */
+export class NauticalGraphqlError extends Error {
+  constructor(
+    readonly operation: string,
+    readonly errors: NauticalGraphqlErrorDetail[]
+  ) {
+    super(
+      `${operation} failed: ${errors.map((error) => error.message).join("; ")}`
+    );
+    this.name = "NauticalGraphqlError";
+  }
+}
+
+/**
+ * A Nautical mutation ran but rejected its input. Mutations report this as
+ * either userErrors or errors on their payload; both end up here.
+ */
+export class NauticalUserErrorsError extends Error {
+  constructor(
+    readonly operation: string,
+    readonly userErrors: NauticalUserError[]
+  ) {
+    super(
+      `${operation} failed: ${userErrors
+        .map((userError) =>
+          userError.field
+            ? `${userError.field}: ${userError.message}`
+            : userError.message
+        )
+        .join("; ")}`
+    );
+    this.name = "NauticalUserErrorsError";
+  }
+}
+
+export interface NauticalGraphqlClient {
+  /**
+   * Run a query and return its data
+   * @param operation Description of the operation, used in errors
+   * @param query GraphQL query
+   * @param variables Query variables
+   */
+  query<T>(
+    operation: string,
+    query: string,
+    variables?: Record<string, unknown>
+  ): Promise<T>;
+
+  /**
+   * Run a mutation and return its payload, throwing NauticalUserErrorsError
+   * when the payload has userErrors or errors. A mutation is only sent again
+   * after a network failure or server error when the options say it is safe.
+   * @param operation Description of the operation, used in errors
+   * @param mutation GraphQL mutation
+   * @param variables Mutation variables
+   * @param field Top-level field of the mutation, e.g. "productCreate"
+   * @param options How the mutation may be retried
+   */
+  mutate<T>(
+    operation: string,
+    mutation: string,
+    variables: Record<string, unknown>,
+    field: string,
+    options?: NauticalMutationOptions<T>
+  ): Promise<T>;
+}
+
+export interface NauticalMutationOptions<T> {
+  // Sending the mutation twice has the same effect as sending it once, e.g.
+  // an update that sets absolute values
+  idempotent?: boolean;
+  // Look up what an earlier attempt of a create may have made, returned in
+  // the shape of the mutation payload. The create is only sent again when
+  // nothing is found.
+  findExisting?: () => Promise<T | null>;
+}
+
+export interface NauticalGraphqlOptions {
+  // Initial delay before retrying a transient failure
+  retryDelay?: number;
+}
+
+/**
+ * Create the Nautical GraphQL client used by every flow
+ * @param connection Nautical connection
+ * @returns GraphQL client for the connection's tenant
+ */
+export function createNauticalGraphqlClient(
+  connection: Connection
+): NauticalGraphqlClient {
+  return wrapNauticalHttpClient(createNauticalClient(connection));
+}
+
+/**
+ * Add retries and error handling on top of a Nautical HTTP client. Network
+ * failures, rate limiting and server errors are retried for queries and
+ * idempotent mutations; other mutations are only retried when rate limited,
+ * or once a lookup shows an earlier attempt created nothing. GraphQL errors
+ * and client errors are never retried.
+ * @param http HTTP client with the Nautical GraphQL endpoint as base URL
+ * @param options Retry overrides
+ * @returns GraphQL client
+ */
+export function wrapNauticalHttpClient(
+  http: Pick<HttpClient, "post">,
+  options: NauticalGraphqlOptions = {}
+): NauticalGraphqlClient {
+  const post = async (
+    query: string,
+    variables: Record<string, unknown>,
+    shouldRetry: (error: unknown) => boolean
+  ): Promise<NauticalGraphqlResponse> => {
+    const response = await withRetry(
+      () => http.post("", { query, variables }),
+      MAX_ATTEMPTS,
+      options.retryDelay,
+      undefined,
+      shouldRetry
+    );
+    return response.data;
+  };
+
+  const readData = (
+    operation: string,
+    body: NauticalGraphqlResponse
+  ): Record<string, unknown> => {
+    const errors = body.errors ?? [];
+    if (errors.length > 0 || !body.data) {
+      throw new NauticalGraphqlError(
+        operation,
+        errors.length > 0 ? errors : [{ message: "No data returned" }]
+      );
+    }
+
+    return body.data;
+  };
+
+  return {
+    query: async <T>(
+      operation: string,
+      query: string,
+      variables: Record<string, unknown> = {}
+    ) => {
+      let body: NauticalGraphqlResponse;
+      try {
+        body = await post(query, variables, isTransientError);
+      } catch (error) {
+        throw handleApiError(error, operation);
+      }
+      return readData(operation, body) as T;
+    },
+
+    mutate: async <T>(
+      operation: string,
+      mutation: string,
+      variables: Record<string, unknown>,
+      field: string,
+      mutationOptions: NauticalMutationOptions<T> = {}
+    ) => {
+      const { idempotent, findExisting } = mutationOptions;
+
+      // After a network failure or server error the mutation may still have
+      // been applied, so only idempotent ones are sent again straight away
+      let body: NauticalGraphqlResponse | undefined;
+      for (let attempt = 1; !body; attempt++) {
+        try {
+          body = await post(
+            mutation,
+            variables,
+            idempotent ? isTransientError : isRateLimitedError
+          );
+        } catch (error) {
+          if (
+            !findExisting ||
+            attempt >= MAX_ATTEMPTS ||
+            !isTransientError(error)
+          ) {
+            throw handleApiError(error, operation);
+          }
+
+          const existing = await findExisting();
+          if (existing) {
+            return existing;
+          }
+        }
+      }
+
+      const data = readData(operation, body);
+      const payload = data[field] as {
+        userErrors?: NauticalUserError[];
+        errors?: NauticalUserError[];
+      } | null;
+
+      if (!payload) {
+        throw new NauticalGraphqlError(operation, [
+          { message: `No ${field} payload returned` },
+        ]);
+      }
+
+      const userErrors = [
+        ...(payload.userErrors ?? []),
+        ...(payload.errors ?? []),
+      ];
+      if (userErrors.length > 0) {
+        throw new NauticalUserErrorsError(operation, userErrors);
+      }
+
+      return payload as T;
+    },
+  };
+}
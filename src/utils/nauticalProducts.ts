@@ -0,0 +1,281 @@
+import type { NauticalGraphqlClient } from "./nauticalGraphql";
+import type { GraphqlOperations } from "./diagnostics";
+
+interface NauticalVariantInput {
+  sku: string;
+  price: string;
+  externalId?: string;
+  [key: string]: unknown;
+}
+
+export interface NauticalProductInput {
+  name: string;
+  description?: string;
+  productType?: string;
+  status?: string;
+  variants: NauticalVariantInput[];
+  [key: string]: unknown;
+}
+
+export interface NauticalProduct {
+  id: string;
+  name: string;
+  description?: string;
+  productType?: string;
+  status?: string;
+  variants?: {
+    nodes: {
+      sku: string;
+      price: string;
+      externalId?: string;
+    }[];
+  };
+}
+
+export type UpsertOutcome = "created" | "updated" | "unchanged";
+
+/**
+ * Create or update a Nautical product keyed by its Shopify GID
+ * @param client Nautical GraphQL client
+ * @param product Product already transformed to Nautical format
+ * @param externalId Shopify GID of the product
+ * @returns Which action was taken and the resulting product
+ */
+export async function upsertProduct(
+  client: NauticalGraphqlClient,
+  product: NauticalProductInput,
+  externalId: string
+): Promise<{ outcome: UpsertOutcome; product: NauticalProduct }> {
+  const { outcome, existingProduct } = await planProductUpsert(
+    client,
+    product,
+    externalId
+  );
+
+  if (!existingProduct) {
+    return {
+      outcome,
+      product: await createProduct(client, product, externalId),
+    };
+  }
+
+  if (outcome === "unchanged") {
+    return { outcome, product: existingProduct };
+  }
+
+  return {
+    outcome,
+    product: await updateProduct(client, existingProduct.id, product),
+  };
+}
+
+/**
+ * Work out what upsertProduct would do, without writing to Nautical
+ * @param client Nautical GraphQL client
+ * @param product Product already transformed to Nautical format
+ * @param externalId Shopify GID of the product
+ * @returns The action upsertProduct would take and the current product
+ */
+export async function planProductUpsert(
+  client: NauticalGraphqlClient,
+  product: NauticalProductInput,
+  externalId: string
+): Promise<{
+  outcome: UpsertOutcome;
+  existingProduct: NauticalProduct | null;
+}> {
+  const existingProduct = await findProductByExternalId(client, externalId);
+
+  if (!existingProduct) {
+    return { outcome: "created", existingProduct };
+  }
+
+  return {
+    outcome: isProductUnchanged(existingProduct, product)
+      ? "unchanged"
+      : "updated",
+    existingProduct,
+  };
+}
+
+/**
+ * Compare the fields we sync from Shopify against what Nautical already holds
+ * @param existing Product as returned by Nautical
+ * @param incoming Product transformed from Shopify
+ * @returns True when an update would not change anything
+ */
+export function isProductUnchanged(
+  existing: NauticalProduct,
+  incoming: NauticalProductInput
+): boolean {
+  if (
+    existing.name !== incoming.name ||
+    (existing.description ?? "") !== (incoming.description ?? "") ||
+    (existing.productType ?? "") !== (incoming.productType ?? "") ||
+    (existing.status ?? "") !== (incoming.status ?? "")
+  ) {
+    return false;
+  }
+
+  const existingVariants = existing.variants?.nodes ?? [];
+  if (existingVariants.length !== incoming.variants.length) {
+    return false;
+  }
+
+  const existingBySku = new Map(
+    existingVariants.map((variant) => [variant.sku, variant])
+  );
+
+  return incoming.variants.every((variant) => {
+    const match = existingBySku.get(variant.sku);
+    return (
+      match?.price === variant.price &&
+      (match.externalId ?? "") === (variant.externalId ?? "")
+    );
+  });
+}
+
+const FIND_PRODUCT_BY_EXTERNAL_ID_QUERY = `
+  query FindProductByExternalId($externalId: String!) {
+    products(filter: { externalId: { eq: $externalId } }, first: 1) {
+      nodes {
+        id
+        name
+        description
+        productType
+        status
+        variants {
+          nodes {
+            sku
+            price
+            externalId
+          }
+        }
+      }
+    }
+  }
+`;
+
+export async function findProductByExternalId(
+  client: NauticalGraphqlClient,
+  externalId: string
+): Promise<NauticalProduct | null> {
+  const { products } = await client.query<{
+    products: { nodes: NauticalProduct[] };
+  }>("Find Product By External ID", FIND_PRODUCT_BY_EXTERNAL_ID_QUERY, {
+    externalId,
+  });
+
+  return products.nodes.length > 0 ? products.nodes[0] : null;
+}
+
+const CREATE_PRODUCT_MUTATION = `
+  mutation CreateProduct($input: ProductCreateInput!) {
+    productCreate(input: $input) {
+      product {
+        id
+        name
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export async function createProduct(
+  client: NauticalGraphqlClient,
+  product: NauticalProductInput,
+  externalId: string
+): Promise<NauticalProduct> {
+  // Add external ID to product data
+  const productWithExternalId = {
+    ...product,
+    externalId,
+  };
+
+  const { product: created } = await client.mutate<{
+    product: NauticalProduct;
+  }>(
+    "Create Product",
+    CREATE_PRODUCT_MUTATION,
+    { input: productWithExternalId },
+    "productCreate",
+    {
+      findExisting: async () => {
+        const existing = await findProductByExternalId(client, externalId);
+        return existing ? { product: existing } : null;
+      },
+    }
+  );
+
+  return created;
+}
+
+const UPDATE_PRODUCT_MUTATION = `
+  mutation UpdateProduct($id: ID!, $input: ProductUpdateInput!) {
+    productUpdate(id: $id, input: $input) {
+      product {
+        id
+        name
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export async function updateProduct(
+  client: NauticalGraphqlClient,
+  id: string,
+  product: NauticalProductInput
+): Promise<NauticalProduct> {
+  const { product: updated } = await client.mutate<{
+    product: NauticalProduct;
+  }>(
+    "Update Product",
+    UPDATE_PRODUCT_MUTATION,
+    { id, input: product },
+    "productUpdate",
+    {
+      idempotent: true,
+    }
+  );
+
+  return updated;
+}
+
+const DELETE_PRODUCT_MUTATION = `
+  mutation DeleteProduct($id: ID!) {
+    productDelete(id: $id) {
+      deletedProductId
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export async function deleteProduct(client: NauticalGraphqlClient, id: string) {
+  const { deletedProductId } = await client.mutate<{
+    deletedProductId: string;
+  }>("Delete Product", DELETE_PRODUCT_MUTATION, { id }, "productDelete");
+
+  return {
+    success: true,
+    id: deletedProductId,
+  };
+}
+
+export const NAUTICAL_PRODUCT_OPERATIONS: GraphqlOperations = {
+  nautical: [
+    FIND_PRODUCT_BY_EXTERNAL_ID_QUERY,
+    CREATE_PRODUCT_MUTATION,
+    UPDATE_PRODUCT_MUTATION,
+    DELETE_PRODUCT_MUTATION,
+  ],
+};
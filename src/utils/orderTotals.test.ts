@@ -0,0 +1,129 @@
+/**
+ * Tests for totalling and reconciling Shopify order amounts.
+ */
+
+import {
+  calculateOrderTotals,
+  reconcileOrderTotals,
+  tipFromOrderTotal,
+} from "./orderTotals";
+
+describe("order totals", () => {
+  // Three shirts at 19.99 with a 10% code, and discounted shipping
+  const charges = {
+    lines: [
+      {
+        price: "19.99",
+        quantity: 3,
+        discounts: ["6.00"],
+        taxes: ["4.32", "1.08"],
+      },
+      { price: "0.10", quantity: 7, discounts: [], taxes: ["0.07"] },
+    ],
+    shippingLines: [{ price: "9.99", discounts: ["5.00"], taxes: ["0.50"] }],
+    taxesIncluded: false,
+  };
+
+  test("totals each line and the order to the cent", () => {
+    const totals = calculateOrderTotals(charges);
+
+    expect(totals.lines).toEqual([
+      { subtotal: "59.97", discountTotal: "6.00", total: "53.97", tax: "5.40" },
+      { subtotal: "0.70", discountTotal: "0.00", total: "0.70", tax: "0.07" },
+    ]);
+    expect(totals.shippingLines).toEqual([
+      { subtotal: "9.99", discountTotal: "5.00", total: "4.99", tax: "0.50" },
+    ]);
+    expect(totals).toMatchObject({
+      subtotal: "60.67",
+      discountTotal: "11.00",
+      shippingTotal: "9.99",
+      taxTotal: "5.97",
+      total: "65.63",
+    });
+  });
+
+  test("reconciles with the totals Shopify charged", () => {
+    const totals = calculateOrderTotals(charges);
+
+    expect(() =>
+      reconcileOrderTotals(
+        totals,
+        {
+          discountTotal: "11.00",
+          shippingTotal: "9.99",
+          taxTotal: "5.97",
+          total: "65.63",
+        },
+        2,
+        "#1001"
+      )
+    ).not.toThrow();
+    expect(() =>
+      reconcileOrderTotals(totals, { total: "65.64" }, 2, "#1001")
+    ).toThrow(
+      "Order #1001 does not reconcile: total is 65.63 but Shopify reports 65.64"
+    );
+  });
+
+  test("leaves included tax out of the total", () => {
+    const totals = calculateOrderTotals(
+      {
+        lines: [
+          { price: "1200", quantity: 2, discounts: ["200"], taxes: ["200"] },
+        ],
+        shippingLines: [],
+        taxesIncluded: true,
+      },
+      0
+    );
+
+    expect(totals).toMatchObject({ taxTotal: "200", total: "2200" });
+  });
+
+  test("adds tips and duties to the total", () => {
+    const totals = calculateOrderTotals({
+      ...charges,
+      tip: "5.00",
+      duties: "3.25",
+    });
+
+    expect(totals).toMatchObject({
+      tipTotal: "5.00",
+      dutiesTotal: "3.25",
+      total: "73.88",
+    });
+    expect(() =>
+      reconcileOrderTotals(totals, { total: "73.88" }, 2, "#1001")
+    ).not.toThrow();
+    expect(calculateOrderTotals(charges)).toMatchObject({
+      tipTotal: "0.00",
+      dutiesTotal: "0.00",
+    });
+  });
+
+  test("works out the presentment tip of a multi-currency webhook order", () => {
+    // The shop sells in USD and the customer paid in EUR. The webhook's tip
+    // is 5.00 USD, so the EUR tip only shows in the EUR total.
+    const presentment = calculateOrderTotals({
+      lines: [
+        {
+          price: "18.39",
+          quantity: 3,
+          discounts: ["5.52"],
+          taxes: ["3.97", "0.99"],
+        },
+        { price: "0.09", quantity: 7, discounts: [], taxes: ["0.06"] },
+      ],
+      shippingLines: [{ price: "9.19", discounts: ["4.60"], taxes: ["0.46"] }],
+      taxesIncluded: false,
+    });
+
+    expect(presentment.total).toBe("60.35");
+    expect(tipFromOrderTotal(presentment, "64.95", 2, "#1001")).toBe("4.60");
+    expect(tipFromOrderTotal(presentment, "60.35", 2, "#1001")).toBe("0.00");
+    expect(() => tipFromOrderTotal(presentment, "59.35", 2, "#1001")).toThrow(
+      "Order #1001 does not reconcile: total is 60.35 before the tip but Shopify reports 59.35"
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { toMinorUnits, fromMinorUnits } from "./money";
+
+// Amounts of a line item or shipping line, in one currency
+export interface ChargeAmounts {
+  // Unit price for line items, the whole charge for shipping lines
+  price: string;
+  quantity?: number;
+  discounts: string[];
+  taxes: string[];
+}
+
+export interface ChargeTotals {
+  subtotal: string;
+  discountTotal: string;
+  // Subtotal less discounts, before tax
+  total: string;
+  tax: string;
+}
+
+export interface OrderTotals {
+  lines: ChargeTotals[];
+  shippingLines: ChargeTotals[];
+  subtotal: string;
+  discountTotal: string;
+  shippingTotal: string;
+  taxTotal: string;
+  tipTotal: string;
+  dutiesTotal: string;
+  total: string;
+}
+
+/**
+ * Total up an order from its line items and shipping lines using exact
+ * minor-unit arithmetic
+ * @param charges Line item and shipping line amounts, plus any tips and
+ * duties
+ * @param decimals Decimal places of the currency
+ * @param taxesIncluded Whether prices already include tax
+ * @returns Totals for each line and for the order
+ */
+export function calculateOrderTotals(
+  charges: {
+    lines: ChargeAmounts[];
+    shippingLines: ChargeAmounts[];
+    taxesIncluded: boolean;
+    tip?: string;
+    duties?: string;
+  },
+  decimals = 2
+): OrderTotals {
+  const toUnits = (amount: string) => toMinorUnits(amount, decimals);
+  const toAmount = (units: number) => fromMinorUnits(units, decimals);
+  const sum = (amounts: string[]) =>
+    amounts.reduce((total, amount) => total + toUnits(amount), 0);
+
+  const totalCharge = (charge: ChargeAmounts) => {
+    const subtotal = toUnits(charge.price) * (charge.quantity ?? 1);
+    const discountTotal = sum(charge.discounts);
+    return {
+      subtotal,
+      discountTotal,
+      total: subtotal - discountTotal,
+      tax: sum(charge.taxes),
+    };
+  };
+
+  const lines = charges.lines.map(totalCharge);
+  const shippingLines = charges.shippingLines.map(totalCharge);
+  const sumOf = (
+    totals: ReturnType<typeof totalCharge>[],
+    key: keyof ReturnType<typeof totalCharge>
+  ) => totals.reduce((total, charge) => total + charge[key], 0);
+
+  const subtotal = sumOf(lines, "subtotal");
+  const discountTotal =
+    sumOf(lines, "discountTotal") + sumOf(shippingLines, "discountTotal");
+  const shippingTotal = sumOf(shippingLines, "subtotal");
+  const taxTotal = sumOf(lines, "tax") + sumOf(shippingLines, "tax");
+  const tipTotal = toUnits(charges.tip ?? "0");
+  const dutiesTotal = toUnits(charges.duties ?? "0");
+  const total =
+    subtotal -
+    discountTotal +
+    shippingTotal +
+    (charges.taxesIncluded ? 0 : taxTotal) +
+    tipTotal +
+    dutiesTotal;
+
+  const toChargeTotals = (charge: ReturnType<typeof totalCharge>) => ({
+    subtotal: toAmount(charge.subtotal),
+    discountTotal: toAmount(charge.discountTotal),
+    total: toAmount(charge.total),
+    tax: toAmount(charge.tax),
+  });
+
+  return {
+    lines: lines.map(toChargeTotals),
+    shippingLines: shippingLines.map(toChargeTotals),
+    subtotal: toAmount(subtotal),
+    discountTotal: toAmount(discountTotal),
+    shippingTotal: toAmount(shippingTotal),
+    taxTotal: toAmount(taxTotal),
+    tipTotal: toAmount(tipTotal),
+    dutiesTotal: toAmount(dutiesTotal),
+    total: toAmount(total),
+  };
+}
+
+/**
+ * Check that calculated totals match the totals Shopify charged, so an order
+ * is never written to Nautical with amounts that do not add up
+ * @param totals Calculated order totals
+ * @param expected Totals reported by Shopify
+ * @param decimals Decimal places of the currency
+ * @param orderName Shopify order name for the error message
+ */
+export function reconcileOrderTotals(
+  totals: OrderTotals,
+  expected: Partial<
+    Record<keyof Omit<OrderTotals, "lines" | "shippingLines">, string>
+  >,
+  decimals: number,
+  orderName: string
+): void {
+  for (const [key, amount] of Object.entries(expected)) {
+    if (amount === undefined) continue;
+
+    const calculated = totals[key as keyof typeof expected];
+    if (toMinorUnits(calculated, decimals) !== toMinorUnits(amount, decimals)) {
+      throw new Error(
+        `Order ${orderName} does not reconcile: ${key} is ${calculated} but Shopify reports ${amount}`
+      );
+    }
+  }
+}
+
+/**
+ * Work out a tip that is only known in another currency. REST webhooks send
+ * the tip in the shop currency alone, so in the presentment currency it is
+ * whatever Shopify's order total holds beyond the other charges.
+ * @param totals Totals calculated without the tip
+ * @param total Order total reported by Shopify
+ * @param decimals Decimal places of the currency
+ * @param orderName Shopify order name for the error message
+ * @returns The tip in the currency of the totals
+ */
+export function tipFromOrderTotal(
+  totals: OrderTotals,
+  total: string,
+  decimals: number,
+  orderName: string
+): string {
+  const tip =
+    toMinorUnits(total, decimals) - toMinorUnits(totals.total, decimals);
+  if (tip < 0) {
+    throw new Error(
+      `Order ${orderName} does not reconcile: total is ${totals.total} before the tip but Shopify reports ${total}`
+    );
+  }
+  return fromMinorUnits(tip, decimals);
+}
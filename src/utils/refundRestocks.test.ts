@@ -0,0 +1,58 @@
+/**
+ * Tests for remembering which refund lines were restocked, so a retried
+ * refunds/create delivery does not restock them twice.
+ */
+
+import {
+  isLineRestocked,
+  recordRestockedLine,
+  type RefundRestockLedger,
+} from "./refundRestocks";
+
+const refundId = "gid://shopify/Refund/509562969";
+
+describe("refund restocks", () => {
+  test("remembers restocked lines per refund", () => {
+    const ledger = recordRestockedLine({}, refundId, 104689539);
+
+    expect(isLineRestocked(ledger, refundId, 104689539)).toBe(true);
+    expect(isLineRestocked(ledger, refundId, 104689540)).toBe(false);
+    expect(isLineRestocked(ledger, "gid://shopify/Refund/1", 104689539)).toBe(
+      false
+    );
+  });
+
+  test("adds lines to a refund that is already recorded", () => {
+    const ledger = recordRestockedLine(
+      recordRestockedLine({}, refundId, 1),
+      refundId,
+      2
+    );
+
+    expect(ledger).toEqual({ [refundId]: [1, 2] });
+  });
+
+  test("keeps only the most recent refunds", () => {
+    let ledger: RefundRestockLedger = {};
+    for (let index = 0; index < 1005; index++) {
+      ledger = recordRestockedLine(ledger, `gid://shopify/Refund/${index}`, 1);
+    }
+
+    expect(Object.keys(ledger)).toHaveLength(1000);
+    expect(ledger["gid://shopify/Refund/4"]).toBeUndefined();
+    expect(ledger["gid://shopify/Refund/5"]).toEqual([1]);
+    expect(ledger["gid://shopify/Refund/1004"]).toEqual([1]);
+  });
+
+  test("keeps a refund that is still being restocked", () => {
+    let ledger = recordRestockedLine({}, refundId, 1);
+    for (let index = 0; index < 999; index++) {
+      ledger = recordRestockedLine(ledger, `gid://shopify/Refund/${index}`, 1);
+    }
+    ledger = recordRestockedLine(ledger, refundId, 2);
+    ledger = recordRestockedLine(ledger, "gid://shopify/Refund/new", 1);
+
+    expect(ledger[refundId]).toEqual([1, 2]);
+    expect(ledger["gid://shopify/Refund/0"]).toBeUndefined();
+  });
+});
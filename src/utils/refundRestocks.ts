@@ -0,0 +1,40 @@
+// Number of recent refunds whose restock progress is remembered. Shopify
+// retries a failed delivery for up to 48 hours.
+const MAX_RECENT_REFUNDS = 1000;
+
+// Shopify refund line IDs already restocked, keyed by refund GID, oldest
+// refund first
+export type RefundRestockLedger = Record<string, number[]>;
+
+/**
+ * Check whether a refund line was restocked by an earlier delivery
+ * @param ledger Restocks applied so far
+ * @param refundId GID of the Shopify refund
+ * @param lineId ID of the refund line item
+ * @returns True when the line has already been restocked
+ */
+export function isLineRestocked(
+  ledger: RefundRestockLedger,
+  refundId: string,
+  lineId: number
+): boolean {
+  return ledger[refundId]?.includes(lineId) ?? false;
+}
+
+/**
+ * Remember a refund line once its restock has been applied
+ * @param ledger Restocks applied so far
+ * @param refundId GID of the Shopify refund
+ * @param lineId ID of the refund line item
+ * @returns The updated ledger, holding only the most recent refunds
+ */
+export function recordRestockedLine(
+  ledger: RefundRestockLedger,
+  refundId: string,
+  lineId: number
+): RefundRestockLedger {
+  const { [refundId]: previous = [], ...others } = ledger;
+  const refunds = Object.entries(others).slice(-(MAX_RECENT_REFUNDS - 1));
+
+  return Object.fromEntries([...refunds, [refundId, [...previous, lineId]]]);
+}
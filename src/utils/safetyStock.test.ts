@@ -0,0 +1,63 @@
+/**
+ * Tests for safety stock rules held back from Nautical.
+ */
+
+import {
+  parseSafetyStockRules,
+  resolveSafetyStock,
+  applySafetyStock,
+  spreadSafetyStock,
+} from "./safetyStock";
+
+describe("safety stock", () => {
+  const rules = parseSafetyStockRules(
+    "2",
+    [{ key: "Shoes", value: "5" }],
+    [{ key: "TSHIRT-RED-M", value: "0" }]
+  );
+
+  test("parses the config vars", () => {
+    expect(rules).toEqual({
+      global: 2,
+      byProductType: { Shoes: 5 },
+      bySku: { "TSHIRT-RED-M": 0 },
+    });
+    expect(parseSafetyStockRules(undefined, undefined, undefined)).toEqual({
+      global: 0,
+      byProductType: {},
+      bySku: {},
+    });
+  });
+
+  test("rejects negative and fractional values", () => {
+    expect(() => parseSafetyStockRules(-1, [], [])).toThrow(
+      "Global Safety Stock must be a whole number of 0 or more: -1"
+    );
+    expect(() =>
+      parseSafetyStockRules(0, [], [{ key: "SKU-1", value: "1.5" }])
+    ).toThrow("Safety Stock by SKU for SKU-1");
+  });
+
+  test("prefers SKU, then product type, then the global value", () => {
+    expect(resolveSafetyStock(rules, "TSHIRT-RED-M", "Shoes")).toBe(0);
+    expect(resolveSafetyStock(rules, "SNEAKER-9", "Shoes")).toBe(5);
+    expect(resolveSafetyStock(rules, "MUG-1", "Mugs")).toBe(2);
+    expect(resolveSafetyStock(rules, "MUG-1")).toBe(2);
+  });
+
+  test("never publishes a negative quantity", () => {
+    expect(applySafetyStock(10, 3)).toBe(7);
+    expect(applySafetyStock(2, 5)).toBe(0);
+  });
+
+  test("holds safety stock back once per SKU across warehouses", () => {
+    expect(spreadSafetyStock(5, [3, 10, 4])).toEqual([3, 2, 0]);
+    expect(spreadSafetyStock(5, [20, 10])).toEqual([5, 0]);
+    expect(spreadSafetyStock(0, [3, 10])).toEqual([0, 0]);
+  });
+
+  test("keeps safety stock the groups cannot cover on the first group", () => {
+    expect(spreadSafetyStock(5, [1, -2, 2])).toEqual([3, 0, 2]);
+    expect(spreadSafetyStock(5, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+// Key-value list config var, as saved by the config wizard
+type KeyValueList = { key: string; value: string }[];
+
+export interface SafetyStockRules {
+  global: number;
+  byProductType: Record<string, number>;
+  bySku: Record<string, number>;
+}
+
+/**
+ * Read the safety stock config vars. Values that are not whole, non-negative
+ * numbers are rejected so a typo cannot publish the wrong stock.
+ * @param global "Global Safety Stock" config var
+ * @param byProductType "Safety Stock by Product Type" config var
+ * @param bySku "Safety Stock by SKU" config var
+ * @returns Parsed safety stock rules
+ */
+export function parseSafetyStockRules(
+  global: number | string | undefined,
+  byProductType: KeyValueList | undefined,
+  bySku: KeyValueList | undefined
+): SafetyStockRules {
+  const toRecord = (list: KeyValueList | undefined, name: string) =>
+    Object.fromEntries(
+      (list ?? []).map(({ key, value }) => [
+        key,
+        toSafetyStock(value, `${name} for ${key}`),
+      ])
+    );
+
+  return {
+    global: toSafetyStock(global ?? 0, "Global Safety Stock"),
+    byProductType: toRecord(byProductType, "Safety Stock by Product Type"),
+    bySku: toRecord(bySku, "Safety Stock by SKU"),
+  };
+}
+
+/**
+ * Find the safety stock for a variant. A SKU rule wins over a product type
+ * rule, which wins over the global value.
+ * @param rules Parsed safety stock rules
+ * @param sku Variant SKU
+ * @param productType Product type of the variant's product
+ * @returns Units to hold back from Nautical
+ */
+export function resolveSafetyStock(
+  rules: SafetyStockRules,
+  sku: string,
+  productType?: string
+): number {
+  return (
+    rules.bySku[sku] ??
+    (productType ? rules.byProductType[productType] : undefined) ??
+    rules.global
+  );
+}
+
+/**
+ * Subtract safety stock from a quantity, never going below zero
+ * @param quantity Raw quantity in Shopify
+ * @param safetyStock Units to hold back
+ * @returns Quantity to publish to Nautical
+ */
+export function applySafetyStock(quantity: number, safetyStock: number) {
+  return Math.max(quantity - safetyStock, 0);
+}
+
+/**
+ * Split a SKU's safety stock over the location groups it is synced to, so it
+ * is held back once per SKU rather than once per warehouse. Groups hold back
+ * in order, each up to its own quantity; anything left over when the SKU has
+ * less stock than its safety stock stays with the first group.
+ * @param safetyStock Units to hold back for the SKU
+ * @param quantities Raw Shopify quantity of each location group
+ * @returns Units to hold back in each group
+ */
+export function spreadSafetyStock(
+  safetyStock: number,
+  quantities: number[]
+): number[] {
+  let remaining = safetyStock;
+  const shares = quantities.map((quantity) => {
+    const share = Math.min(Math.max(quantity, 0), remaining);
+    remaining -= share;
+    return share;
+  });
+
+  if (shares.length > 0) {
+    shares[0] += remaining;
+  }
+  return shares;
+}
+
+function toSafetyStock(value: number | string, name: string): number {
+  const parsed = typeof value === "string" ? Number(value.trim() || 0) : value;
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a whole number of 0 or more: ${value}`);
+  }
+  return parsed;
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for splitting a marketplace order into seller sub-orders.
+ */
+
+import { splitSellerOrders } from "./sellerOrders";
+
+describe("splitSellerOrders", () => {
+  test("groups lines by seller and shares shipping by subtotal", () => {
+    const lines = [
+      { sku: "TSHIRT-RED-M", seller: "seller-a", total: "20.00" },
+      { sku: "MUG-1", seller: "seller-b", total: "10.00" },
+      { sku: "TSHIRT-BLUE-M", seller: "seller-a", total: "20.00" },
+    ];
+
+    expect(splitSellerOrders(lines, "10.00")).toEqual([
+      {
+        seller: "seller-a",
+        lineItems: [lines[0], lines[2]],
+        subtotal: "40.00",
+        shipping: "8.00",
+        tax: "0.00",
+        total: "48.00",
+      },
+      {
+        seller: "seller-b",
+        lineItems: [lines[1]],
+        subtotal: "10.00",
+        shipping: "2.00",
+        tax: "0.00",
+        total: "12.00",
+      },
+    ]);
+  });
+
+  test("never loses or invents a cent when shipping does not divide evenly", () => {
+    const sellerOrders = splitSellerOrders(
+      [
+        { seller: "seller-a", total: "10.00" },
+        { seller: "seller-b", total: "10.00" },
+        { seller: "seller-c", total: "10.00" },
+      ],
+      "10.00"
+    );
+
+    expect(sellerOrders.map((order) => order.shipping)).toEqual([
+      "3.34",
+      "3.33",
+      "3.33",
+    ]);
+  });
+
+  test("splits shipping evenly when every line is free", () => {
+    expect(
+      splitSellerOrders(
+        [
+          { seller: "seller-a", total: "0.00" },
+          { seller: "seller-b", total: "0.00" },
+        ],
+        "5.01"
+      ).map((order) => order.total)
+    ).toEqual(["2.51", "2.50"]);
+  });
+
+  test("shares shipping tax and adds tax to seller totals", () => {
+    const sellerOrders = splitSellerOrders(
+      [
+        { seller: "seller-a", total: "30.00", tax: "3.00" },
+        { seller: "seller-b", total: "10.00", tax: "1.00" },
+      ],
+      "8.00",
+      { shippingTax: "0.80" }
+    );
+
+    expect(sellerOrders).toMatchObject([
+      { seller: "seller-a", shipping: "6.00", tax: "3.60", total: "39.60" },
+      { seller: "seller-b", shipping: "2.00", tax: "1.20", total: "13.20" },
+    ]);
+  });
+
+  test("leaves tax out of totals when prices include it", () => {
+    const [sellerOrder] = splitSellerOrders(
+      [{ seller: "seller-a", total: "1200", tax: "109" }],
+      "0",
+      { decimals: 0, taxesIncluded: true }
+    );
+
+    expect(sellerOrder).toMatchObject({ tax: "109", total: "1200" });
+  });
+});
@@ -0,0 +1,70 @@
+import { toMinorUnits, fromMinorUnits, allocateMinorUnits } from "./money";
+
+export interface SellerOrder<TLine> {
+  seller: string;
+  lineItems: TLine[];
+  subtotal: string;
+  shipping: string;
+  tax: string;
+  total: string;
+}
+
+/**
+ * Group the line items of a marketplace order into one sub-order per seller.
+ * The order's shipping and shipping tax are shared between sellers in
+ * proportion to their subtotals, so the sub-orders add up exactly to the
+ * order.
+ * @param lines Line items, each with its seller, total after discounts and tax
+ * @param shipping Shipping charged on the whole order, after discounts
+ * @param options Shipping tax, currency decimal places and whether prices
+ * include tax
+ * @returns Sub-orders in the order their sellers first appear
+ */
+export function splitSellerOrders<
+  TLine extends { seller: string; total: string; tax?: string }
+>(
+  lines: TLine[],
+  shipping: string,
+  options: {
+    shippingTax?: string;
+    decimals?: number;
+    taxesIncluded?: boolean;
+  } = {}
+): SellerOrder<TLine>[] {
+  const { shippingTax = "0", decimals = 2, taxesIncluded = false } = options;
+  const toUnits = (amount: string) => toMinorUnits(amount, decimals);
+  const toAmount = (units: number) => fromMinorUnits(units, decimals);
+
+  const linesBySeller = new Map<string, TLine[]>();
+  for (const line of lines) {
+    linesBySeller.set(line.seller, [
+      ...(linesBySeller.get(line.seller) ?? []),
+      line,
+    ]);
+  }
+
+  const sellers = [...linesBySeller];
+  const sumLines = (sellerLines: TLine[], amount: (line: TLine) => string) =>
+    sellerLines.reduce((sum, line) => sum + toUnits(amount(line)), 0);
+  const subtotals = sellers.map(([, sellerLines]) =>
+    sumLines(sellerLines, (line) => line.total)
+  );
+  const shippingShares = allocateMinorUnits(toUnits(shipping), subtotals);
+  const shippingTaxShares = allocateMinorUnits(toUnits(shippingTax), subtotals);
+
+  return sellers.map(([seller, sellerLines], index) => {
+    const tax =
+      sumLines(sellerLines, (line) => line.tax ?? "0") +
+      shippingTaxShares[index];
+    return {
+      seller,
+      lineItems: sellerLines,
+      subtotal: toAmount(subtotals[index]),
+      shipping: toAmount(shippingShares[index]),
+      tax: toAmount(tax),
+      total: toAmount(
+        subtotals[index] + shippingShares[index] + (taxesIncluded ? 0 : tax)
+      ),
+    };
+  });
+}
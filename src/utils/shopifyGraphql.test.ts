@@ -0,0 +1,392 @@
+/**
+ * Tests for throttling, error handling and API version checks in the
+ * Shopify GraphQL client.
+ */
+
+import type { ActionContext, Connection } from "@prismatic-io/spectral";
+import { getShopifyAccessToken, getShopifyApiVersion } from "../client";
+import {
+  wrapShopifyHttpClient,
+  ShopifyGraphqlError,
+  ShopifyUserErrorsError,
+} from "./shopifyGraphql";
+
+const cost = (currentlyAvailable: number, requestedQueryCost = 100) => ({
+  cost: {
+    requestedQueryCost,
+    actualQueryCost: requestedQueryCost,
+    throttleStatus: {
+      maximumAvailable: 1000,
+      currentlyAvailable,
+      restoreRate: 50,
+    },
+  },
+});
+
+// Fake HTTP client that answers each post with the next response body, or
+// rejects when the next entry is an Error
+function fakeShopify(...bodies: unknown[]) {
+  return fakeShopifyWithHeaders({}, ...bodies);
+}
+
+// Fake HTTP client that sends the same response headers with every body
+function fakeShopifyWithHeaders(
+  headers: Record<string, string>,
+  ...bodies: unknown[]
+) {
+  const post = jest.fn(() => {
+    const body = bodies.shift();
+    if (!body) throw new Error("Unexpected request");
+    return body instanceof Error
+      ? Promise.reject(body)
+      : Promise.resolve({ data: body, headers });
+  });
+  const sleep = jest.fn(() => Promise.resolve());
+  const warn = jest.fn();
+  const client = wrapShopifyHttpClient(
+    { post } as unknown as Parameters<typeof wrapShopifyHttpClient>[0],
+    {
+      retryDelay: 0,
+      sleep,
+      now: () => 0,
+      apiVersion: "2026-10",
+      context: { logger: { warn } } as unknown as ActionContext,
+    }
+  );
+  return { client, post, sleep, warn };
+}
+
+// Axios-style error for an HTTP status
+function httpError(status: number) {
+  return Object.assign(new Error(`Request failed with status ${status}`), {
+    response: { status, data: {} },
+  });
+}
+
+describe("Shopify GraphQL client", () => {
+  test("posts to graphql.json and returns the data", async () => {
+    const { client, post, sleep } = fakeShopify({
+      data: { shop: { name: "Test Store" } },
+      extensions: cost(900),
+    });
+
+    await expect(
+      client.query("Get Shop", "{ shop { name } }", { first: 1 })
+    ).resolves.toEqual({ shop: { name: "Test Store" } });
+    expect(post).toHaveBeenCalledWith("graphql.json", {
+      query: "{ shop { name } }",
+      variables: { first: 1 },
+    });
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  test("waits for the bucket to refill before a query it cannot afford", async () => {
+    const { client, sleep } = fakeShopify(
+      { data: { a: 1 }, extensions: cost(40) },
+      { data: { a: 2 }, extensions: cost(900) }
+    );
+
+    await client.query("First", "{ a }");
+    await client.query("Second", "{ a }");
+
+    // 60 more points at 50 points a second
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(sleep).toHaveBeenCalledWith(1200);
+  });
+
+  test("retries a THROTTLED request once the bucket allows it", async () => {
+    const { client, post, sleep } = fakeShopify(
+      {
+        errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }],
+        extensions: cost(0, 200),
+      },
+      { data: { a: 1 }, extensions: cost(800, 200) }
+    );
+
+    await expect(client.query("Get A", "{ a }")).resolves.toEqual({ a: 1 });
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledWith(4000);
+  });
+
+  test("gives up after repeated THROTTLED responses", async () => {
+    const throttled = {
+      errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }],
+    };
+    const { client, post } = fakeShopify(
+      throttled,
+      throttled,
+      throttled,
+      throttled,
+      throttled
+    );
+
+    await expect(client.query("Get A", "{ a }")).rejects.toThrow(
+      ShopifyGraphqlError
+    );
+    expect(post).toHaveBeenCalledTimes(5);
+  });
+
+  test("does not retry client errors", async () => {
+    jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+    const { client, post } = fakeShopify(httpError(401), {
+      data: { shop: { name: "Test Store" } },
+      extensions: cost(900),
+    });
+
+    await expect(client.query("Get Shop", "{ shop { name } }")).rejects.toThrow(
+      "Authentication error"
+    );
+    expect(post).toHaveBeenCalledTimes(1);
+    jest.restoreAllMocks();
+  });
+
+  test("throws GraphQL errors with the operation name", async () => {
+    const { client } = fakeShopify({
+      errors: [{ message: "Field 'nope' doesn't exist on type 'Shop'" }],
+    });
+
+    await expect(client.query("Get Shop", "{ shop { nope } }")).rejects.toThrow(
+      "Get Shop failed: Field 'nope' doesn't exist on type 'Shop'"
+    );
+  });
+
+  test("surfaces mutation userErrors as a typed error", async () => {
+    const { client } = fakeShopify({
+      data: {
+        productCreate: {
+          product: null,
+          userErrors: [
+            { field: ["input", "title"], message: "can't be blank" },
+          ],
+        },
+      },
+    });
+
+    const error = await client
+      .mutate("Create Product", "mutation", { input: {} }, "productCreate")
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ShopifyUserErrorsError);
+    expect(error).toMatchObject({
+      operation: "Create Product",
+      userErrors: [{ field: ["input", "title"], message: "can't be blank" }],
+      message: "Create Product failed: input.title: can't be blank",
+    });
+  });
+
+  test("returns the mutation payload when there are no userErrors", async () => {
+    const { client } = fakeShopify({
+      data: {
+        productCreate: {
+          product: { id: "gid://shopify/Product/1" },
+          userErrors: [],
+        },
+      },
+    });
+
+    await expect(
+      client.mutate("Create Product", "mutation", {}, "productCreate")
+    ).resolves.toEqual({
+      product: { id: "gid://shopify/Product/1" },
+      userErrors: [],
+    });
+  });
+
+  describe("after a failed request", () => {
+    const created = {
+      data: { fulfillmentCreate: { fulfillment: { id: "1" }, userErrors: [] } },
+    };
+
+    beforeEach(() => {
+      jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+      jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test("retries server errors for queries", async () => {
+      const { client, post } = fakeShopify(httpError(502), { data: { a: 1 } });
+
+      await expect(client.query("Get A", "{ a }")).resolves.toEqual({ a: 1 });
+      expect(post).toHaveBeenCalledTimes(2);
+    });
+
+    test("does not resend a mutation after a server error", async () => {
+      const { client, post } = fakeShopify(httpError(503), created);
+
+      await expect(
+        client.mutate("Create Fulfillment", "mutation", {}, "fulfillmentCreate")
+      ).rejects.toThrow("API error (503)");
+      expect(post).toHaveBeenCalledTimes(1);
+    });
+
+    test("resends a mutation that was rate limited or THROTTLED", async () => {
+      const { client, post } = fakeShopify(
+        httpError(429),
+        {
+          errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }],
+        },
+        created
+      );
+
+      await expect(
+        client.mutate("Create Fulfillment", "mutation", {}, "fulfillmentCreate")
+      ).resolves.toEqual(created.data.fulfillmentCreate);
+      expect(post).toHaveBeenCalledTimes(3);
+    });
+
+    test("resends an idempotent mutation after a server error", async () => {
+      const { client, post } = fakeShopify(new Error("socket hang up"), {
+        data: { productVariantsBulkUpdate: { productVariants: [] } },
+      });
+
+      await expect(
+        client.mutate(
+          "Update Variants",
+          "mutation",
+          {},
+          "productVariantsBulkUpdate",
+          { idempotent: true }
+        )
+      ).resolves.toEqual({ productVariants: [] });
+      expect(post).toHaveBeenCalledTimes(2);
+    });
+
+    test("returns what a failed create made instead of creating it again", async () => {
+      const { client, post } = fakeShopify(httpError(502));
+      const findExisting = jest.fn(() =>
+        Promise.resolve({ fulfillment: { id: "1" } })
+      );
+
+      await expect(
+        client.mutate(
+          "Create Fulfillment",
+          "mutation",
+          {},
+          "fulfillmentCreate",
+          {
+            findExisting,
+          }
+        )
+      ).resolves.toEqual({ fulfillment: { id: "1" } });
+      expect(post).toHaveBeenCalledTimes(1);
+      expect(findExisting).toHaveBeenCalledTimes(1);
+    });
+
+    test("resends a create once a lookup shows nothing was created", async () => {
+      const { client, post } = fakeShopify(httpError(500), created);
+      const findExisting = jest.fn(() => Promise.resolve(null));
+
+      await expect(
+        client.mutate(
+          "Create Fulfillment",
+          "mutation",
+          {},
+          "fulfillmentCreate",
+          {
+            findExisting,
+          }
+        )
+      ).resolves.toEqual(created.data.fulfillmentCreate);
+      expect(post).toHaveBeenCalledTimes(2);
+      expect(findExisting).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  test("warns once when Shopify serves a different API version", async () => {
+    const { client, warn } = fakeShopifyWithHeaders(
+      { "x-shopify-api-version": "2026-01" },
+      { data: { a: 1 } },
+      { data: { a: 2 } }
+    );
+
+    await client.query("First", "{ a }");
+    await client.query("Second", "{ a }");
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("2026-01 instead of 2026-10"),
+      { requestedVersion: "2026-10", servedVersion: "2026-01" }
+    );
+  });
+
+  test("does not warn when the requested version is served", async () => {
+    const { client, warn } = fakeShopifyWithHeaders(
+      { "x-shopify-api-version": "2026-10" },
+      { data: { a: 1 } }
+    );
+
+    await client.query("Get A", "{ a }");
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test("logs each deprecation notice once", async () => {
+    const { client, warn } = fakeShopifyWithHeaders(
+      {
+        "x-shopify-api-version": "2026-10",
+        "x-shopify-api-deprecated-reason":
+          "https://shopify.dev/api/usage/versioning#deprecation-practices",
+      },
+      { data: { a: 1 } },
+      { data: { a: 2 } }
+    );
+
+    await client.query("Get A", "{ a }");
+    await client.query("Get A", "{ a }");
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("deprecated API usage in Get A"),
+      expect.objectContaining({ operation: "Get A", apiVersion: "2026-10" })
+    );
+  });
+});
+
+describe("getShopifyApiVersion", () => {
+  const connection = (apiVersion?: string) =>
+    ({ fields: { shopDomain: "test", apiVersion } } as unknown as Connection);
+
+  test("defaults to the current version", () => {
+    expect(getShopifyApiVersion(connection())).toBe("2026-10");
+  });
+
+  test.each(["2025-07", "unstable"])("accepts %s", (version) => {
+    expect(getShopifyApiVersion(connection(version))).toBe(version);
+  });
+
+  test.each(["2025-05", "latest", "v2025-07"])("rejects %s", (version) => {
+    expect(() => getShopifyApiVersion(connection(version))).toThrow(
+      `Invalid Shopify API version "${version}"`
+    );
+  });
+});
+
+describe("getShopifyAccessToken", () => {
+  test("uses the token from the OAuth install", () => {
+    expect(
+      getShopifyAccessToken({
+        fields: { shopDomain: "test-store" },
+        token: { access_token: "shpat_token" },
+      } as unknown as Connection)
+    ).toBe("shpat_token");
+  });
+
+  test("falls back to a static Admin API token", () => {
+    expect(
+      getShopifyAccessToken({
+        fields: { shopDomain: "test-store", apiKey: "shpat_static" },
+      } as unknown as Connection)
+    ).toBe("shpat_static");
+  });
+
+  test("fails when the connection has no token", () => {
+    expect(() =>
+      getShopifyAccessToken({
+        fields: { shopDomain: "test-store" },
+      } as unknown as Connection)
+    ).toThrow("Complete the Shopify OAuth install");
+  });
+});
@@ -0,0 +1,358 @@
+import type { ActionContext, Connection } from "@prismatic-io/spectral";
+import type { HttpClient } from "@prismatic-io/spectral/dist/clients/http";
+import { createShopifyClient, getShopifyApiVersion } from "../client";
+import {
+  withRetry,
+  handleApiError,
+  isTransientError,
+  isRateLimitedError,
+} from "./errorHandling";
+import { logWarning } from "./logging";
+
+// Cost assumed for a query whose cost Shopify has not reported yet
+const DEFAULT_QUERY_COST = 50;
+
+// Attempts at a request that Shopify keeps rejecting as THROTTLED
+const MAX_THROTTLED_ATTEMPTS = 5;
+
+// Attempts at a request that fails with a network or server error
+const MAX_ATTEMPTS = 3;
+
+export interface ShopifyUserError {
+  field?: string[] | null;
+  message: string;
+  code?: string | null;
+}
+
+interface ShopifyGraphqlErrorDetail {
+  message: string;
+  extensions?: { code?: string };
+}
+
+interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+interface ShopifyGraphqlResponse {
+  data?: Record<string, unknown> | null;
+  errors?: ShopifyGraphqlErrorDetail[];
+  extensions?: {
+    cost?: {
+      requestedQueryCost: number;
+      actualQueryCost: number | null;
+      throttleStatus: ThrottleStatus;
+    };
+  };
+}
+
+/**
+ * Shopify rejected a request with top-level GraphQL errors
+ */
+export class ShopifyGraphqlError extends Error {
+  constructor(
+    readonly operation: string,
+    readonly errors: ShopifyGraphqlErrorDetail[]
+  ) {
+    super(
+      `${operation} failed: ${errors.map((error) => error.message).join("; ")}`
+    );
+    this.name = "ShopifyGraphqlError";
+  }
+}
+
+/**
+ * A Shopify mutation ran but rejected its input with userErrors
+ */
+export class ShopifyUserErrorsError extends Error {
+  constructor(
+    readonly operation: string,
+    readonly userErrors: ShopifyUserError[]
+  ) {
+    super(
+      `${operation} failed: ${userErrors
+        .map((userError) =>
+          userError.field?.length
+            ? `${userError.field.join(".")}: ${userError.message}`
+            : userError.message
+        )
+        .join("; ")}`
+    );
+    this.name = "ShopifyUserErrorsError";
+  }
+}
+
+export interface ShopifyGraphqlClient {
+  /**
+   * Run a query and return its data
+   * @param operation Description of the operation, used in errors
+   * @param query GraphQL query
+   * @param variables Query variables
+   */
+  query<T>(
+    operation: string,
+    query: string,
+    variables?: Record<string, unknown>
+  ): Promise<T>;
+
+  /**
+   * Run a mutation and return its payload, throwing ShopifyUserErrorsError
+   * when the payload has userErrors. A mutation is only sent again after a
+   * network failure or server error when the options say it is safe.
+   * @param operation Description of the operation, used in errors
+   * @param mutation GraphQL mutation
+   * @param variables Mutation variables
+   * @param field Top-level field of the mutation, e.g. "productCreate"
+   * @param options How the mutation may be retried
+   */
+  mutate<T>(
+    operation: string,
+    mutation: string,
+    variables: Record<string, unknown>,
+    field: string,
+    options?: ShopifyMutationOptions<T>
+  ): Promise<T>;
+}
+
+export interface ShopifyMutationOptions<T> {
+  // Sending the mutation twice has the same effect as sending it once, e.g.
+  // an update that sets absolute values
+  idempotent?: boolean;
+  // Look up what an earlier attempt of a create may have made, returned in
+  // the shape of the mutation payload. The create is only sent again when
+  // nothing is found.
+  findExisting?: () => Promise<T | null>;
+}
+
+export interface ShopifyGraphqlOptions {
+  // Initial delay before retrying a network failure or server error
+  retryDelay?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+  // Admin API version the client asked for, checked against each response
+  apiVersion?: string;
+  // Action context for logging version warnings
+  context?: ActionContext;
+}
+
+/**
+ * Create the Shopify GraphQL client used by every flow
+ * @param connection Shopify connection
+ * @param context Optional action context for logging version warnings
+ * @returns GraphQL client for the connection's shop
+ */
+export function createShopifyGraphqlClient(
+  connection: Connection,
+  context?: ActionContext
+): ShopifyGraphqlClient {
+  return wrapShopifyHttpClient(createShopifyClient(connection), {
+    apiVersion: getShopifyApiVersion(connection),
+    context,
+  });
+}
+
+/**
+ * Add throttling and error handling on top of a Shopify HTTP client.
+ * Shopify's query cost bucket is tracked from each response, so a request
+ * waits for the bucket to refill instead of being throttled. Network
+ * failures and server errors are retried for queries and idempotent
+ * mutations; other mutations are only retried when throttled, or once a
+ * lookup shows an earlier attempt created nothing. Each response
+ * is also checked for the Admin API version Shopify served, and for
+ * deprecation notices, so they show up in the logs before a version retires.
+ * @param http HTTP client with the shop's Admin API base URL
+ * @param options Retry, clock, sleep and API version overrides
+ * @returns GraphQL client
+ */
+export function wrapShopifyHttpClient(
+  http: Pick<HttpClient, "post">,
+  options: ShopifyGraphqlOptions = {}
+): ShopifyGraphqlClient {
+  const sleep =
+    options.sleep ??
+    ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const now = options.now ?? Date.now;
+
+  // Last reported bucket, and the last requested cost of each query
+  let bucket: { status: ThrottleStatus; at: number } | undefined;
+  const queryCosts = new Map<string, number>();
+
+  // Version and deprecation warnings already logged by this client
+  const warnings = new Set<string>();
+  const warnOnce = (message: string, data: Record<string, unknown>) => {
+    if (warnings.has(message)) return;
+    warnings.add(message);
+
+    if (options.context) {
+      logWarning(options.context, message, data);
+    } else {
+      process.stdout.write(`${message}\n`);
+    }
+  };
+
+  // Shopify answers an unsupported version with the oldest supported one,
+  // and names deprecated fields a query used in a response header
+  const checkVersion = (
+    operation: string,
+    headers: Record<string, unknown> = {}
+  ) => {
+    const servedVersion = headers["x-shopify-api-version"];
+    if (
+      options.apiVersion &&
+      typeof servedVersion === "string" &&
+      servedVersion !== options.apiVersion
+    ) {
+      warnOnce(
+        `Shopify served Admin API version ${servedVersion} instead of ${options.apiVersion}. Update the API version on the Shopify connection.`,
+        { requestedVersion: options.apiVersion, servedVersion }
+      );
+    }
+
+    const deprecatedReason = headers["x-shopify-api-deprecated-reason"];
+    if (typeof deprecatedReason === "string" && deprecatedReason) {
+      warnOnce(
+        `Shopify reported deprecated API usage in ${operation}: ${deprecatedReason}`,
+        { operation, apiVersion: servedVersion, deprecatedReason }
+      );
+    }
+  };
+
+  // Milliseconds until the bucket holds enough points for the given cost
+  const waitTime = (cost: number) => {
+    if (!bucket) return 0;
+
+    const { maximumAvailable, currentlyAvailable, restoreRate } = bucket.status;
+    const elapsedSeconds = (now() - bucket.at) / 1000;
+    const available = Math.min(
+      maximumAvailable,
+      currentlyAvailable + restoreRate * elapsedSeconds
+    );
+    const needed = Math.min(cost, maximumAvailable) - available;
+    return needed > 0 ? Math.ceil((needed / restoreRate) * 1000) : 0;
+  };
+
+  // Send a request, waiting for the bucket and resending it while Shopify
+  // answers THROTTLED. HTTP errors are thrown as they are.
+  const post = async (
+    operation: string,
+    query: string,
+    variables: Record<string, unknown>,
+    shouldRetry: (error: unknown) => boolean
+  ): Promise<ShopifyGraphqlResponse> => {
+    for (let attempt = 1; ; attempt++) {
+      const wait = waitTime(queryCosts.get(query) ?? DEFAULT_QUERY_COST);
+      if (wait > 0) {
+        await sleep(wait);
+      }
+
+      const response = await withRetry(
+        () => http.post("graphql.json", { query, variables }),
+        MAX_ATTEMPTS,
+        options.retryDelay,
+        undefined,
+        shouldRetry
+      );
+      const body: ShopifyGraphqlResponse = response.data;
+      checkVersion(operation, response.headers);
+
+      const cost = body.extensions?.cost;
+      if (cost) {
+        bucket = { status: cost.throttleStatus, at: now() };
+        queryCosts.set(query, cost.requestedQueryCost);
+      }
+
+      // A THROTTLED request never ran, so it is safe to send again even when
+      // it is a mutation
+      const throttled = (body.errors ?? []).some(
+        (error) => error.extensions?.code === "THROTTLED"
+      );
+      if (throttled && attempt < MAX_THROTTLED_ATTEMPTS) {
+        // Without a reported bucket, back off as withRetry does
+        if (!cost) {
+          await sleep(1000 * 2 ** (attempt - 1));
+        }
+        continue;
+      }
+
+      return body;
+    }
+  };
+
+  const readData = (
+    operation: string,
+    body: ShopifyGraphqlResponse
+  ): Record<string, unknown> => {
+    const errors = body.errors ?? [];
+    if (errors.length > 0 || !body.data) {
+      throw new ShopifyGraphqlError(
+        operation,
+        errors.length > 0 ? errors : [{ message: "No data returned" }]
+      );
+    }
+
+    return body.data;
+  };
+
+  return {
+    query: async <T>(
+      operation: string,
+      query: string,
+      variables: Record<string, unknown> = {}
+    ) => {
+      let body: ShopifyGraphqlResponse;
+      try {
+        body = await post(operation, query, variables, isTransientError);
+      } catch (error) {
+        throw handleApiError(error, operation);
+      }
+      return readData(operation, body) as T;
+    },
+
+    mutate: async <T>(
+      operation: string,
+      mutation: string,
+      variables: Record<string, unknown>,
+      field: string,
+      mutationOptions: ShopifyMutationOptions<T> = {}
+    ) => {
+      const { idempotent, findExisting } = mutationOptions;
+
+      // After a network failure or server error the mutation may still have
+      // been applied, so only idempotent ones are sent again straight away
+      let body: ShopifyGraphqlResponse | undefined;
+      for (let attempt = 1; !body; attempt++) {
+        try {
+          body = await post(
+            operation,
+            mutation,
+            variables,
+            idempotent ? isTransientError : isRateLimitedError
+          );
+        } catch (error) {
+          if (
+            !findExisting ||
+            attempt >= MAX_ATTEMPTS ||
+            !isTransientError(error)
+          ) {
+            throw handleApiError(error, operation);
+          }
+
+          const existing = await findExisting();
+          if (existing) {
+            return existing;
+          }
+        }
+      }
+
+      const data = readData(operation, body);
+      const payload = data[field] as { userErrors?: ShopifyUserError[] };
+
+      if (payload.userErrors && payload.userErrors.length > 0) {
+        throw new ShopifyUserErrorsError(operation, payload.userErrors);
+      }
+
+      return payload as T;
+    },
+  };
+}
@@ -0,0 +1,29 @@
+// Shopify access scopes each flow needs. A write scope grants the matching
+// read scope as well.
+export const SHOPIFY_FLOW_SCOPES: Record<string, string[]> = {
+  "Product Import": ["read_products"],
+  "Inventory Sync": [
+    "read_products",
+    "read_inventory",
+    "write_inventory",
+    "read_locations",
+  ],
+  "Order Sync": ["read_orders", "read_customers"],
+  "Fulfillment Sync": [
+    "read_orders",
+    "read_merchant_managed_fulfillment_orders",
+    "write_merchant_managed_fulfillment_orders",
+  ],
+  "Customer Sync": ["read_customers"],
+  "Setup Webhooks": [
+    "read_products",
+    "read_orders",
+    "read_customers",
+    "read_inventory",
+  ],
+};
+
+// Access scopes the OAuth install requests: every scope any flow needs
+export const SHOPIFY_OAUTH_SCOPES = [
+  ...new Set(Object.values(SHOPIFY_FLOW_SCOPES).flat()),
+].join(",");
@@ -0,0 +1,110 @@
+/**
+ * Tests for dropping duplicate and out-of-order Shopify webhook deliveries.
+ */
+
+import {
+  describeWebhookResource,
+  checkWebhookDelivery,
+  recordWebhookDelivery,
+  type WebhookLedger,
+} from "./webhookDeduplication";
+
+const emptyLedger: WebhookLedger = {
+  recentWebhookIds: [],
+  resourceVersions: {},
+};
+
+describe("webhook deduplication", () => {
+  test("describes products and inventory levels by resource key", () => {
+    expect(
+      describeWebhookResource("products/update", {
+        id: 42,
+        updated_at: "2026-10-01T12:00:00-04:00",
+      })
+    ).toEqual({
+      resourceKey: "products:42",
+      updatedAt: "2026-10-01T12:00:00-04:00",
+    });
+    expect(
+      describeWebhookResource("inventory_levels/update", {
+        inventory_item_id: 7,
+        location_id: 9,
+      })
+    ).toEqual({ resourceKey: "inventory_levels:7:9", updatedAt: undefined });
+  });
+
+  test("drops a retried delivery with the same webhook ID", () => {
+    const delivery = {
+      webhookId: "b54557e4",
+      resourceKey: "products:42",
+      updatedAt: "2026-10-01T16:00:00Z",
+    };
+    const ledger = recordWebhookDelivery(emptyLedger, delivery);
+
+    expect(checkWebhookDelivery(emptyLedger, delivery)).toBeNull();
+    expect(checkWebhookDelivery(ledger, delivery)).toBe("duplicate");
+  });
+
+  test("drops an update older than the last one applied", () => {
+    const ledger = recordWebhookDelivery(emptyLedger, {
+      webhookId: "newer",
+      resourceKey: "products:42",
+      updatedAt: "2026-10-01T12:00:00-04:00",
+    });
+
+    expect(
+      checkWebhookDelivery(ledger, {
+        webhookId: "older",
+        resourceKey: "products:42",
+        updatedAt: "2026-10-01T15:59:59Z",
+      })
+    ).toBe("stale");
+    expect(
+      checkWebhookDelivery(ledger, {
+        webhookId: "later",
+        resourceKey: "products:42",
+        updatedAt: "2026-10-01T16:00:01Z",
+      })
+    ).toBeNull();
+    expect(
+      checkWebhookDelivery(ledger, {
+        webhookId: "other-product",
+        resourceKey: "products:43",
+        updatedAt: "2026-01-01T00:00:00Z",
+      })
+    ).toBeNull();
+  });
+
+  test("keeps the list of remembered webhook IDs bounded", () => {
+    let ledger = emptyLedger;
+    for (let i = 0; i < 1005; i++) {
+      ledger = recordWebhookDelivery(ledger, { webhookId: `id-${i}` });
+    }
+
+    expect(ledger.recentWebhookIds).toHaveLength(1000);
+    expect(checkWebhookDelivery(ledger, { webhookId: "id-0" })).toBeNull();
+    expect(checkWebhookDelivery(ledger, { webhookId: "id-1004" })).toBe(
+      "duplicate"
+    );
+  });
+
+  test("forgets resource versions older than 48 hours", () => {
+    const now = Date.parse("2026-10-05T12:00:00Z");
+    const ledger = recordWebhookDelivery(
+      {
+        recentWebhookIds: [],
+        resourceVersions: {
+          "products:1": "2026-10-03T11:59:59Z",
+          "products:2": "2026-10-03T12:00:00Z",
+        },
+      },
+      { resourceKey: "products:3", updatedAt: "2026-10-05T11:00:00Z" },
+      now
+    );
+
+    expect(ledger.resourceVersions).toEqual({
+      "products:2": "2026-10-03T12:00:00Z",
+      "products:3": "2026-10-05T11:00:00Z",
+    });
+  });
+});
@@ -0,0 +1,117 @@
+// Number of recent webhook IDs remembered for duplicate detection. Shopify
+// retries a failed delivery for up to 48 hours with the same ID.
+const MAX_RECENT_WEBHOOK_IDS = 1000;
+
+// How long the last applied updated_at of a resource is remembered. Once
+// Shopify has stopped retrying, no older delivery can still arrive.
+const RESOURCE_VERSION_TTL_MS = 48 * 60 * 60 * 1000;
+
+// Deliveries the webhook flow has applied, kept in instance state. Instance
+// state is read when an execution starts and written back whole when it
+// ends, so two deliveries handled at the same time can both pass the check,
+// and the later write drops the other's entries. Deduplication is therefore
+// best-effort: it stops Shopify's retries and late deliveries from being
+// applied again, but handlers must not rely on it to avoid duplicate records.
+export interface WebhookLedger {
+  recentWebhookIds: string[];
+  // Last applied updated_at per resource, keyed by "<resource>:<id>"
+  resourceVersions: Record<string, string>;
+}
+
+export interface WebhookDelivery {
+  webhookId?: string;
+  resourceKey?: string;
+  updatedAt?: string;
+}
+
+export type WebhookDropReason = "duplicate" | "stale";
+
+/**
+ * Work out which resource a webhook body refers to, so that deliveries for
+ * the same resource can be ordered by their updated_at timestamp
+ * @param topic Shopify webhook topic
+ * @param data Parsed webhook body
+ * @returns The resource key and timestamp, where the topic carries them
+ */
+export function describeWebhookResource(
+  topic: string,
+  data: Record<string, unknown> | undefined
+): Pick<WebhookDelivery, "resourceKey" | "updatedAt"> {
+  if (!data) {
+    return {};
+  }
+
+  const resource = topic.split("/")[0];
+  const id =
+    resource === "inventory_levels"
+      ? `${data.inventory_item_id}:${data.location_id}`
+      : data.id;
+  const updatedAt =
+    typeof data.updated_at === "string" ? data.updated_at : undefined;
+
+  return {
+    resourceKey: id === undefined ? undefined : `${resource}:${id}`,
+    updatedAt,
+  };
+}
+
+/**
+ * Decide whether a webhook delivery should be applied
+ * @param ledger Deliveries applied so far
+ * @param delivery The incoming delivery
+ * @returns The reason to drop the delivery, or null to apply it
+ */
+export function checkWebhookDelivery(
+  ledger: WebhookLedger,
+  delivery: WebhookDelivery
+): WebhookDropReason | null {
+  if (
+    delivery.webhookId &&
+    ledger.recentWebhookIds.includes(delivery.webhookId)
+  ) {
+    return "duplicate";
+  }
+
+  const lastApplied = delivery.resourceKey
+    ? ledger.resourceVersions[delivery.resourceKey]
+    : undefined;
+  if (
+    lastApplied &&
+    delivery.updatedAt &&
+    Date.parse(delivery.updatedAt) < Date.parse(lastApplied)
+  ) {
+    return "stale";
+  }
+
+  return null;
+}
+
+/**
+ * Remember a delivery once it has been applied successfully
+ * @param ledger Deliveries applied so far
+ * @param delivery The delivery that was applied
+ * @param now Current time in milliseconds, used to expire old versions
+ * @returns The updated ledger
+ */
+export function recordWebhookDelivery(
+  ledger: WebhookLedger,
+  delivery: WebhookDelivery,
+  now = Date.now()
+): WebhookLedger {
+  const recentWebhookIds = delivery.webhookId
+    ? [...ledger.recentWebhookIds, delivery.webhookId].slice(
+        -MAX_RECENT_WEBHOOK_IDS
+      )
+    : ledger.recentWebhookIds;
+
+  const resourceVersions = Object.fromEntries(
+    Object.entries(ledger.resourceVersions).filter(
+      ([, updatedAt]) => Date.parse(updatedAt) >= now - RESOURCE_VERSION_TTL_MS
+    )
+  );
+  if (delivery.resourceKey && delivery.updatedAt) {
+    resourceVersions[delivery.resourceKey] = delivery.updatedAt;
+  }
+
+  return { recentWebhookIds, resourceVersions };
+}
@@ -0,0 +1,145 @@
+/**
+ * Tests for Shopify webhook HMAC verification using known-good and tampered payloads.
+ */
+
+import type { ActionContext, TriggerPayload } from "@prismatic-io/spectral";
+import {
+  defaultTriggerPayload,
+  loggerMock,
+} from "@prismatic-io/spectral/dist/testing";
+import {
+  getHeader,
+  verifyShopifyHmac,
+  shopifyWebhookTrigger,
+} from "./webhookVerification";
+
+const secret = "hush";
+const body =
+  '{"id":788032119674292900,"title":"Example T-Shirt","updated_at":"2026-10-01T12:00:00-04:00"}';
+// Signature Shopify would send for `body` when signed with `secret`
+const validHmac = "zUA7qZg5CKrlgMsmRwfGaobyRluzzNegqjc8L3p9lL0=";
+const tamperedBody = body.replace("Example T-Shirt", "Free T-Shirt");
+
+const buildContext = () =>
+  ({
+    logger: loggerMock(),
+    configVars: {
+      "Shopify Connection": {
+        key: "shopify",
+        configVarKey: "Shopify Connection",
+        fields: {
+          shopDomain: "test-store",
+          apiKey: "token",
+          apiSecret: secret,
+        },
+      },
+    },
+  } as unknown as ActionContext);
+
+const buildPayload = (
+  rawBody: string,
+  headers: Record<string, string>
+): TriggerPayload => ({
+  ...defaultTriggerPayload(),
+  headers,
+  rawBody: { data: Buffer.from(rawBody) },
+  body: { data: JSON.parse(rawBody) },
+});
+
+describe("verifyShopifyHmac", () => {
+  test("accepts a known-good signature", () => {
+    expect(verifyShopifyHmac(body, validHmac, secret)).toBe(true);
+    expect(verifyShopifyHmac(Buffer.from(body), validHmac, secret)).toBe(true);
+  });
+
+  test("rejects a tampered body", () => {
+    expect(verifyShopifyHmac(tamperedBody, validHmac, secret)).toBe(false);
+  });
+
+  test("rejects the wrong secret, a missing header and a malformed header", () => {
+    expect(verifyShopifyHmac(body, validHmac, "other-secret")).toBe(false);
+    expect(verifyShopifyHmac(body, undefined, secret)).toBe(false);
+    expect(verifyShopifyHmac(body, "not-base64!", secret)).toBe(false);
+  });
+});
+
+describe("getHeader", () => {
+  test("matches header names case-insensitively", () => {
+    expect(
+      getHeader({ "x-shopify-hmac-sha256": validHmac }, "X-Shopify-Hmac-Sha256")
+    ).toBe(validHmac);
+    expect(getHeader({}, "X-Shopify-Topic")).toBeUndefined();
+  });
+});
+
+describe("shopifyWebhookTrigger", () => {
+  test("passes a correctly signed webhook through", async () => {
+    const payload = buildPayload(body, {
+      "X-Shopify-Hmac-Sha256": validHmac,
+      "X-Shopify-Topic": "products/update",
+    });
+
+    await expect(
+      shopifyWebhookTrigger(buildContext(), payload)
+    ).resolves.toEqual({ payload });
+  });
+
+  test("verifies with the client secret of an OAuth connection", async () => {
+    const context = buildContext();
+    const configVars = context.configVars as Record<
+      string,
+      { fields: Record<string, string> }
+    >;
+    configVars["Shopify Connection"].fields = {
+      shopDomain: "test-store",
+      clientId: "client-id",
+      clientSecret: secret,
+    };
+    const payload = buildPayload(body, {
+      "X-Shopify-Hmac-Sha256": validHmac,
+      "X-Shopify-Topic": "products/update",
+    });
+
+    await expect(shopifyWebhookTrigger(context, payload)).resolves.toEqual({
+      payload,
+    });
+  });
+
+  test("rejects and logs a tampered webhook", async () => {
+    const context = buildContext();
+    const payload = buildPayload(tamperedBody, {
+      "X-Shopify-Hmac-Sha256": validHmac,
+      "X-Shopify-Topic": "products/update",
+    });
+
+    await expect(shopifyWebhookTrigger(context, payload)).rejects.toThrow(
+      /does not match the request body \(topic: products\/update\)/
+    );
+    expect(context.logger.error).toHaveBeenCalledWith(
+      "Shopify webhook failed HMAC verification",
+      expect.objectContaining({
+        error: expect.stringContaining("Webhook rejected"),
+      })
+    );
+  });
+
+  test("rejects an unsigned webhook", async () => {
+    const payload = buildPayload(body, { "X-Shopify-Topic": "orders/create" });
+
+    await expect(
+      shopifyWebhookTrigger(buildContext(), payload)
+    ).rejects.toThrow(/missing X-Shopify-Hmac-Sha256 header/);
+  });
+
+  test("rejects an unsigned request without a body", async () => {
+    const payload = {
+      ...defaultTriggerPayload(),
+      headers: { "X-Shopify-Topic": "products/update" },
+      rawBody: { data: "" },
+    };
+
+    await expect(
+      shopifyWebhookTrigger(buildContext(), payload)
+    ).rejects.toThrow(/missing X-Shopify-Hmac-Sha256 header/);
+  });
+});
@@ -0,0 +1,98 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type {
+  ActionContext,
+  Connection,
+  TriggerPayload,
+} from "@prismatic-io/spectral";
+import { logError } from "./logging";
+
+/**
+ * Read a request header without depending on how its name was cased
+ * @param headers Headers from the trigger payload
+ * @param name Header name
+ * @returns The header value, if present
+ */
+export function getHeader(
+  headers: Record<string, string> | undefined,
+  name: string
+): string | undefined {
+  const lowerName = name.toLowerCase();
+  const key = Object.keys(headers ?? {}).find(
+    (header) => header.toLowerCase() === lowerName
+  );
+  return key ? headers?.[key] : undefined;
+}
+
+/**
+ * Check a Shopify webhook signature
+ * @param rawBody The unparsed request body exactly as Shopify sent it
+ * @param hmacHeader Value of the X-Shopify-Hmac-Sha256 header
+ * @param secret The app's API secret
+ * @returns True when the header is a valid signature of the body
+ */
+export function verifyShopifyHmac(
+  rawBody: string | Buffer,
+  hmacHeader: string | undefined,
+  secret: string
+): boolean {
+  if (!hmacHeader || !secret) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret).update(rawBody).digest();
+  const received = Buffer.from(hmacHeader, "base64");
+
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+/**
+ * Reject a webhook request that does not carry a valid Shopify signature
+ * @param context The action context, used for logging rejections
+ * @param payload The trigger payload
+ * @throws Error when the signature is missing or does not match
+ */
+export function verifyShopifyWebhook(
+  context: ActionContext,
+  payload: TriggerPayload
+): void {
+  const rawBody = payload.rawBody?.data;
+  const shopifyConnection = (context.configVars as Record<string, unknown>)[
+    "Shopify Connection"
+  ] as Connection;
+  // OAuth installs sign webhooks with the client secret
+  const secret = String(
+    shopifyConnection?.fields?.clientSecret ??
+      shopifyConnection?.fields?.apiSecret ??
+      ""
+  );
+  const hmacHeader = getHeader(payload.headers, "X-Shopify-Hmac-Sha256");
+  const body =
+    typeof rawBody === "string" || Buffer.isBuffer(rawBody) ? rawBody : null;
+
+  if (body === null || !verifyShopifyHmac(body, hmacHeader, secret)) {
+    const topic = getHeader(payload.headers, "X-Shopify-Topic") ?? "unknown";
+    const error = new Error(
+      hmacHeader
+        ? `Webhook rejected: X-Shopify-Hmac-Sha256 does not match the request body (topic: ${topic})`
+        : `Webhook rejected: missing X-Shopify-Hmac-Sha256 header (topic: ${topic})`
+    );
+    logError(context, "Shopify webhook failed HMAC verification", error);
+    throw error;
+  }
+}
+
+/**
+ * Flow trigger that verifies the Shopify HMAC signature before a webhook
+ * payload reaches onExecution
+ */
+export function shopifyWebhookTrigger(
+  context: ActionContext,
+  payload: TriggerPayload
+): Promise<{ payload: TriggerPayload }> {
+  return new Promise((resolve) => {
+    verifyShopifyWebhook(context, payload);
+    resolve({ payload });
+  });
+}